@@ -1,68 +1,167 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { getProvider, type GenerationProvider } from "@/lib/providers";
+import { createJob, runJob, appendJobEvent, createJobStream, hasJobCapacity } from "@/lib/jobs";
+import { SSE_HEADERS, JOB_ID_HEADER } from "@/lib/sse";
+import type { Generate3DRequest, ModelSamplingParams, PredictionProgress } from "@/lib/types";
 import {
-  getReplicateClient,
-  toDataUri,
-  fetchAsBuffer,
-  MODELS,
-} from "@/lib/replicate";
-import type { Generate3DRequest, Generate3DResponse, ApiErrorResponse } from "@/lib/types";
-import { DEFAULTS } from "@/lib/constants";
+  DEFAULTS,
+  DEFAULT_MODEL_SAMPLING,
+  MODEL_SAMPLING_LIMITS,
+  MODEL_VIEW_ANGLES,
+  randomSeed,
+} from "@/lib/constants";
 
 export const maxDuration = 300;
 
-export async function POST(
-  request: NextRequest
-): Promise<NextResponse<Generate3DResponse | ApiErrorResponse>> {
-  try {
-    const body: Generate3DRequest = await request.json();
-    const {
-      imageBase64,
-      textureSize = DEFAULTS.TEXTURE_SIZE,
-      meshQuality = DEFAULTS.MESH_QUALITY,
-    } = body;
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
 
-    if (!imageBase64) {
-      return NextResponse.json({ error: "No image provided" }, { status: 400 });
+/**
+ * Fill in default sampling parameters, or describe the first invalid one
+ */
+function resolveSampling(
+  sampling: Generate3DRequest["sampling"] = {}
+): ModelSamplingParams | string {
+  const { MIN_STEPS, MAX_STEPS, MIN_GUIDANCE, MAX_GUIDANCE } = MODEL_SAMPLING_LIMITS;
+  const resolved = { ...DEFAULT_MODEL_SAMPLING, ...sampling };
+
+  for (const key of ["ssSamplingSteps", "slatSamplingSteps"] as const) {
+    if (!isIntegerInRange(resolved[key], MIN_STEPS, MAX_STEPS)) {
+      return `${key} must be an integer between ${MIN_STEPS} and ${MAX_STEPS}`;
+    }
+  }
+  for (const key of ["ssGuidanceStrength", "slatGuidanceStrength"] as const) {
+    if (!isNumberInRange(resolved[key], MIN_GUIDANCE, MAX_GUIDANCE)) {
+      return `${key} must be a number between ${MIN_GUIDANCE} and ${MAX_GUIDANCE}`;
     }
+  }
+
+  return resolved;
+}
 
-    const replicate = getReplicateClient();
-
-    const output = await replicate.run(MODELS.TRELLIS, {
-      input: {
-        seed: 0,
-        images: [toDataUri(imageBase64)],
-        texture_size: textureSize,
-        mesh_simplify: meshQuality,
-        generate_color: true,
-        generate_model: true,
-        randomize_seed: true,
-        generate_normal: true,
-        ss_sampling_steps: 12,
-        slat_sampling_steps: 12,
-        ss_guidance_strength: 7.5,
-        slat_guidance_strength: 3,
-      },
+export async function POST(request: NextRequest): Promise<Response> {
+  let body: Generate3DRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid request body" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
     });
+  }
+  const {
+    imageBase64,
+    textureSize = DEFAULTS.TEXTURE_SIZE,
+    meshQuality = DEFAULTS.MESH_QUALITY,
+    seed = randomSeed(),
+    views = [],
+  } = body;
 
-    const outputObj = output as Record<string, unknown>;
-    const glbUrl = outputObj.model_file as string;
+  if (!imageBase64) {
+    return new Response(JSON.stringify({ error: "No image provided" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
-    if (!glbUrl) {
-      throw new Error("No 3D model found in output");
-    }
+  if (!isIntegerInRange(seed, 0, MODEL_SAMPLING_LIMITS.MAX_SEED)) {
+    return new Response(
+      JSON.stringify({
+        error: `seed must be an integer between 0 and ${MODEL_SAMPLING_LIMITS.MAX_SEED}`,
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-    const glbBuffer = await fetchAsBuffer(glbUrl);
+  const invalidViews =
+    !Array.isArray(views) ||
+    views.length > MODEL_VIEW_ANGLES.length ||
+    views.some((view) => !view?.imageBase64 || !MODEL_VIEW_ANGLES.includes(view.angle)) ||
+    new Set(views.map((view) => view.angle)).size !== views.length;
+  if (invalidViews) {
+    return new Response(
+      JSON.stringify({
+        error: `views must be images with distinct angles of ${MODEL_VIEW_ANGLES.join(" or ")}`,
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-    return NextResponse.json({
-      success: true,
-      glbBase64: glbBuffer.toString("base64"),
-      glbUrl,
+  const sampling = resolveSampling(body.sampling);
+  if (typeof sampling === "string") {
+    return new Response(JSON.stringify({ error: sampling }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
     });
+  }
+
+  let provider: GenerationProvider;
+  try {
+    provider = getProvider();
   } catch (error) {
-    console.error("[Generate3D] Error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "3D generation failed" },
-      { status: 500 }
+    const reason = error instanceof Error ? error.message : "Unknown provider";
+    return new Response(
+      JSON.stringify({ error: `Server not configured. ${reason}` }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
     );
   }
+
+  if (!hasJobCapacity()) {
+    return new Response(
+      JSON.stringify({ error: "Too many generations running, try again shortly" }),
+      { status: 429, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const job = createJob("model", [0], imageBase64);
+
+  appendJobEvent(job, {
+    type: "config",
+    config: { kind: "model", jobId: job.id, textureSize, meshQuality, seed, sampling },
+  });
+
+  // Only forward polls that changed something
+  let lastProgress = "";
+  const onProgress = (progress: PredictionProgress) => {
+    const key = JSON.stringify(progress);
+    if (key === lastProgress || job.controller.signal.aborted) return;
+    lastProgress = key;
+    appendJobEvent(job, { type: "status", ...progress });
+  };
+
+  // Runs detached from the request so a dropped client can resume the job
+  runJob(job, async (signal) => {
+    const { glb, glbUrl } = await provider.generateModel({
+      imageBase64,
+      extraViews: views.map((view) => view.imageBase64),
+      textureSize,
+      meshQuality,
+      seed,
+      sampling,
+      signal,
+      onProgress,
+    });
+
+    return {
+      success: true,
+      jobId: job.id,
+      glbBase64: glb.toString("base64"),
+      glbUrl,
+      seed,
+      sampling,
+    };
+  }).catch((error) => {
+    if (!job.controller.signal.aborted) {
+      console.error("[Generate3D] Error:", error);
+    }
+  });
+
+  return new Response(createJobStream(job), {
+    headers: { ...SSE_HEADERS, [JOB_ID_HEADER]: job.id },
+  });
 }
@@ -1,7 +1,32 @@
 import { NextRequest } from "next/server";
-import { generateImage } from "@/lib/replicate";
-import { generateSteps, calculateCost, DEFAULTS } from "@/lib/constants";
-import type { GenerateStreamRequest } from "@/lib/types";
+import { getProvider, type GenerationProvider } from "@/lib/providers";
+import {
+  generateSteps,
+  generateVisemeSteps,
+  generateRefinementSteps,
+  calculateFrameCost,
+  orderFrameIndices,
+  countFrames,
+  countLayoutCells,
+  DEFAULTS,
+  MAX_EYE_STEPS,
+  POLAR_LIMITS,
+  EXPRESSION_LAYER_IDS,
+  VISEME_IDS,
+  DEFAULT_GRID_ANGLES,
+  GRID_ANGLE_LIMITS,
+} from "@/lib/constants";
+import {
+  createJob,
+  appendJobEvent,
+  hasJobCapacity,
+  markJobIndexComplete,
+  markJobIndexFailed,
+  getJobSummaryCounts,
+  createJobStream,
+} from "@/lib/jobs";
+import { SSE_HEADERS, JOB_ID_HEADER } from "@/lib/sse";
+import type { FrameLayout, GenerateStreamRequest, GridAngles } from "@/lib/types";
 
 export const maxDuration = 300;
 
@@ -9,22 +34,61 @@ const CONCURRENCY = 8;
 const MAX_RETRIES = 5;
 const INITIAL_BACKOFF_MS = 5000;
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
 }
 
-function encodeSSE(data: Record<string, unknown>): Uint8Array {
-  return new TextEncoder().encode(`data: ${JSON.stringify(data)}\n\n`);
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Fill in default grid angles, or describe the first invalid one
+ */
+function resolveGridAngles(angles: GenerateStreamRequest["angles"] = {}): GridAngles | string {
+  const { MAX_ROTATE, MAX_PUPIL, MIN_CURVE, MAX_CURVE } = GRID_ANGLE_LIMITS;
+  const resolved = { ...DEFAULT_GRID_ANGLES, ...angles };
+
+  for (const [key, limit] of [
+    ["yaw", MAX_ROTATE],
+    ["pitch", MAX_ROTATE],
+    ["pupilX", MAX_PUPIL],
+    ["pupilY", MAX_PUPIL],
+  ] as const) {
+    const range = resolved[key];
+    if (!isNumberInRange(range?.min, -limit, 0) || !isNumberInRange(range?.max, 0, limit)) {
+      return `${key} needs min between -${limit} and 0 and max between 0 and ${limit}`;
+    }
+  }
+  for (const key of ["headCurve", "pupilCurve"] as const) {
+    if (!isNumberInRange(resolved[key], MIN_CURVE, MAX_CURVE)) {
+      return `${key} must be a number between ${MIN_CURVE} and ${MAX_CURVE}`;
+    }
+  }
+
+  return resolved;
 }
 
 export async function POST(request: NextRequest): Promise<Response> {
   const body: GenerateStreamRequest = await request.json();
-  const {
-    imageBase64,
-    xSteps = DEFAULTS.X_STEPS,
-    ySteps = DEFAULTS.Y_STEPS,
-    prefix = "avatar",
-  } = body;
+  const { imageBase64, prefix = "avatar", order = "center-out", visemes = false } = body;
+  // The lip-sync set is a single row of front-facing frames
+  const xSteps = visemes ? VISEME_IDS.length : (body.xSteps ?? DEFAULTS.X_STEPS);
+  const ySteps = visemes ? 1 : (body.ySteps ?? DEFAULTS.Y_STEPS);
+  const expressions = visemes ? [] : (body.expressions ?? []);
+  const gridType = visemes ? "head" : (body.gridType ?? DEFAULTS.GRID_TYPE);
+  const eyeXSteps = gridType === "eyes" ? (body.eyeXSteps ?? DEFAULTS.EYE_X_STEPS) : 1;
+  const eyeYSteps = gridType === "eyes" ? (body.eyeYSteps ?? DEFAULTS.EYE_Y_STEPS) : 1;
+  const layoutKind = visemes ? "grid" : (body.layout ?? DEFAULTS.LAYOUT);
+  const rings = body.rings ?? DEFAULTS.RINGS;
+  const directions = body.directions ?? DEFAULTS.DIRECTIONS;
+  const refinements = visemes ? [] : (body.refinements ?? []);
 
   if (!imageBase64) {
     return new Response(JSON.stringify({ error: "No image provided" }), {
@@ -33,106 +97,270 @@ export async function POST(request: NextRequest): Promise<Response> {
     });
   }
 
-  if (!process.env.REPLICATE_API_TOKEN) {
+  if (
+    !Array.isArray(expressions) ||
+    expressions.some((id) => !EXPRESSION_LAYER_IDS.includes(id)) ||
+    new Set(expressions).size !== expressions.length
+  ) {
+    return new Response(JSON.stringify({ error: "Invalid expression layers" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (gridType !== "head" && gridType !== "eyes") {
+    return new Response(JSON.stringify({ error: "Invalid grid type" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (![eyeXSteps, eyeYSteps].every((n) => Number.isInteger(n) && n >= 1 && n <= MAX_EYE_STEPS)) {
     return new Response(
-      JSON.stringify({ error: "Server not configured. Missing API token." }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
+      JSON.stringify({ error: `Eye grid steps must be whole numbers from 1 to ${MAX_EYE_STEPS}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
     );
   }
 
-  const { steps } = generateSteps({ xSteps, ySteps, prefix });
-  const totalImages = xSteps * ySteps;
-  const cost = calculateCost(xSteps, ySteps);
-  const flatSteps = steps.flat();
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      controller.enqueue(
-        encodeSSE({
-          type: "config",
-          config: { xSteps, ySteps, prefix, totalImages, estimatedCost: cost },
-        })
-      );
+  if (layoutKind !== "grid" && layoutKind !== "polar") {
+    return new Response(JSON.stringify({ error: "Invalid frame layout" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
-      let completedCount = 0;
-
-      // Process a single image with retries
-      const processImage = async (index: number): Promise<void> => {
-        const step = flatSteps[index];
-        let retries = 0;
-
-        while (retries < MAX_RETRIES) {
-          try {
-            const imageBuffer = await generateImage({
-              imageBase64,
-              rotate_yaw: step.rotate_yaw,
-              rotate_pitch: step.rotate_pitch,
-              pupil_x: step.pupil_x,
-              pupil_y: step.pupil_y,
-              crop_factor: step.crop_factor,
-              output_quality: step.output_quality,
-              src_ratio: step.src_ratio,
-              sample_ratio: step.sample_ratio,
-            });
-
-            completedCount++;
-            controller.enqueue(
-              encodeSSE({
-                type: "progress",
-                completed: completedCount,
-                total: totalImages,
-                index,
-                step,
-                imageBase64: imageBuffer.toString("base64"),
-              })
-            );
-            return;
-          } catch (err) {
-            const is429 = err instanceof Error && err.message.includes("429");
-            if (is429 && retries < MAX_RETRIES - 1) {
-              const waitTime = Math.min(
-                INITIAL_BACKOFF_MS * Math.pow(2, retries),
-                60000
-              );
-              await delay(waitTime);
-              retries++;
-            } else {
-              console.error(`[Stream] Error generating image ${index}:`, err);
-              completedCount++;
-              return;
-            }
-          }
-        }
-      };
+  if (
+    layoutKind === "polar" &&
+    (!isNumberInRange(rings, 1, POLAR_LIMITS.MAX_RINGS) ||
+      !isNumberInRange(directions, POLAR_LIMITS.MIN_DIRECTIONS, POLAR_LIMITS.MAX_DIRECTIONS) ||
+      !Number.isInteger(rings) ||
+      !Number.isInteger(directions))
+  ) {
+    return new Response(
+      JSON.stringify({
+        error: `Polar layouts need 1 to ${POLAR_LIMITS.MAX_RINGS} rings of ${POLAR_LIMITS.MIN_DIRECTIONS} to ${POLAR_LIMITS.MAX_DIRECTIONS} directions`,
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-      try {
-        // Process in batches to control concurrency
-        for (let i = 0; i < flatSteps.length; i += CONCURRENCY) {
-          const batch = flatSteps
-            .slice(i, i + CONCURRENCY)
-            .map((_, j) => processImage(i + j));
-          await Promise.all(batch);
-        }
+  const angles = resolveGridAngles(body.angles);
+  if (typeof angles === "string") {
+    return new Response(JSON.stringify({ error: angles }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
-        controller.enqueue(encodeSSE({ type: "complete" }));
-      } catch (error) {
-        controller.enqueue(
-          encodeSSE({
-            type: "error",
-            error: error instanceof Error ? error.message : "Generation failed",
-          })
-        );
+  const { steps, layout } = visemes
+    ? {
+        steps: [generateVisemeSteps(prefix)],
+        layout: { kind: "grid", xSteps, ySteps, eyeXSteps: 1, eyeYSteps: 1 } satisfies FrameLayout,
       }
+    : generateSteps({
+        xSteps,
+        ySteps,
+        prefix,
+        angles,
+        expressions,
+        gridType,
+        eyeXSteps,
+        eyeYSteps,
+        layout: layoutKind,
+        rings,
+        directions,
+      });
+  // Refinement parents are neutral cells or earlier refinements
+  const baseCount = countFrames(layout, expressions);
+  const cells = countLayoutCells(layout);
+  const isParent = (index: number, k: number) =>
+    Number.isInteger(index) &&
+    ((index >= 0 && index < cells) || (index >= baseCount && index < baseCount + k));
+  if (
+    !Array.isArray(refinements) ||
+    refinements.some(
+      (pair, k) =>
+        !Array.isArray(pair) ||
+        pair.length !== 2 ||
+        pair[0] === pair[1] ||
+        !pair.every((index) => isParent(index, k))
+    )
+  ) {
+    return new Response(JSON.stringify({ error: "Invalid refinements" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const gridSize = baseCount + refinements.length;
+  const indices = Array.isArray(body.indices)
+    ? [...new Set(body.indices)].sort((a, b) => a - b)
+    : Array.from({ length: gridSize }, (_, i) => i);
+
+  if (
+    (body.indices !== undefined && !Array.isArray(body.indices)) ||
+    indices.length === 0 ||
+    indices.some((index) => !Number.isInteger(index) || index < 0 || index >= gridSize)
+  ) {
+    return new Response(JSON.stringify({ error: "Invalid frame indices" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
-      controller.close();
+  let provider: GenerationProvider;
+  try {
+    provider = getProvider();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown provider";
+    return new Response(
+      JSON.stringify({ error: `Server not configured. ${reason}` }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const totalImages = indices.length;
+  const cost = calculateFrameCost(totalImages);
+  const flatSteps = [
+    ...steps.flat(),
+    ...generateRefinementSteps(steps.flat(), refinements, baseCount, prefix),
+  ];
+
+  if (!hasJobCapacity()) {
+    return new Response(
+      JSON.stringify({ error: "Too many generations running, try again shortly" }),
+      { status: 429, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const job = createJob("frames", indices, imageBase64);
+
+  appendJobEvent(job, {
+    type: "config",
+    config: {
+      kind: "frames",
+      jobId: job.id,
+      xSteps,
+      ySteps,
+      prefix,
+      totalImages,
+      estimatedCost: cost,
+      indices,
+      expressions,
+      angles,
+      gridType,
+      eyeXSteps,
+      eyeYSteps,
+      layout,
+      refinements,
+      visemes,
     },
   });
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
+  const { signal } = job.controller;
+  let completedCount = 0;
+
+  // Process a single image with retries
+  const processImage = async (index: number): Promise<void> => {
+    const step = flatSteps[index];
+    let retries = 0;
+
+    while (retries < MAX_RETRIES) {
+      // Never start (or retry) a prediction for a cancelled job
+      if (signal.aborted) return;
+
+      try {
+        const imageBuffer = await provider.generateFrame({
+          imageBase64,
+          rotate_yaw: step.rotate_yaw,
+          rotate_pitch: step.rotate_pitch,
+          pupil_x: step.pupil_x,
+          pupil_y: step.pupil_y,
+          crop_factor: step.crop_factor,
+          output_quality: step.output_quality,
+          src_ratio: step.src_ratio,
+          sample_ratio: step.sample_ratio,
+          blink: step.blink,
+          wink: step.wink,
+          eyebrow: step.eyebrow,
+          smile: step.smile,
+          aaa: step.aaa,
+          eee: step.eee,
+          woo: step.woo,
+          signal,
+        });
+        if (signal.aborted) return;
+
+        completedCount++;
+        markJobIndexComplete(job, index);
+        appendJobEvent(job, {
+          type: "progress",
+          completed: completedCount,
+          total: totalImages,
+          index,
+          step,
+          imageBase64: imageBuffer.toString("base64"),
+        });
+        return;
+      } catch (err) {
+        if (signal.aborted) return;
+
+        const is429 = err instanceof Error && err.message.includes("429");
+        if (is429 && retries < MAX_RETRIES - 1) {
+          const waitTime = Math.min(
+            INITIAL_BACKOFF_MS * Math.pow(2, retries),
+            60000
+          );
+          await delay(waitTime, signal);
+          retries++;
+        } else {
+          console.error(`[Stream] Error generating image ${index}:`, err);
+          const error = err instanceof Error ? err.message : "Generation failed";
+          completedCount++;
+          markJobIndexFailed(job, index, error);
+          appendJobEvent(job, {
+            type: "frame_failed",
+            completed: completedCount,
+            total: totalImages,
+            index,
+            step,
+            error,
+          });
+          return;
+        }
+      }
+    }
+  };
+
+  // Runs detached from the request so a dropped client can resume the job
+  const run = async () => {
+    try {
+      // Worker pool keeps CONCURRENCY predictions in flight, pulling in schedule order
+      const queue = orderFrameIndices(indices, layout, order);
+      let next = 0;
+      const worker = async () => {
+        while (!signal.aborted && next < queue.length) {
+          await processImage(queue[next++]);
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker)
+      );
+
+      // cancelJob() already emitted the cancelled event
+      if (signal.aborted) return;
+      appendJobEvent(job, { type: "complete", summary: getJobSummaryCounts(job) });
+    } catch (error) {
+      if (signal.aborted) return;
+      appendJobEvent(job, {
+        type: "error",
+        error: error instanceof Error ? error.message : "Generation failed",
+      });
+    }
+  };
+  void run();
+
+  return new Response(createJobStream(job), {
+    headers: { ...SSE_HEADERS, [JOB_ID_HEADER]: job.id },
   });
 }
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProvider } from "@/lib/providers";
+import { createJob, runJob, appendJobEvent, createJobStream, hasJobCapacity } from "@/lib/jobs";
+import { SSE_HEADERS, JOB_ID_HEADER } from "@/lib/sse";
+import { buildInpaintPrompt } from "@/lib/styles";
+import type { InpaintRequest, ApiErrorResponse } from "@/lib/types";
+
+export const maxDuration = 120;
+
+/**
+ * Start a touch-up job and stream its events; the result arrives with the
+ * complete event, and /api/jobs/[id]/stream resumes a dropped stream
+ */
+export async function POST(
+  request: NextRequest
+): Promise<Response | NextResponse<ApiErrorResponse>> {
+  try {
+    const body: InpaintRequest = await request.json();
+    const { imageBase64, maskBase64, prompt } = body;
+
+    if (!imageBase64) {
+      return NextResponse.json({ error: "No image provided" }, { status: 400 });
+    }
+
+    if (!maskBase64) {
+      return NextResponse.json({ error: "No mask provided" }, { status: 400 });
+    }
+
+    if (typeof prompt !== "string" || !prompt.trim()) {
+      return NextResponse.json({ error: "Describe what should fill the masked area" }, { status: 400 });
+    }
+
+    const provider = getProvider();
+    if (!hasJobCapacity()) {
+      return NextResponse.json(
+        { error: "Too many generations running, try again shortly" },
+        { status: 429 }
+      );
+    }
+
+    const job = createJob("inpaint", [0], imageBase64);
+    appendJobEvent(job, { type: "config", config: { kind: "inpaint", jobId: job.id } });
+
+    // Runs detached from the request so a dropped client can resume the job
+    runJob(job, async (signal) => {
+      const image = await provider.inpaint({
+        imageBase64,
+        maskBase64,
+        prompt: buildInpaintPrompt(prompt),
+        signal,
+      });
+
+      return {
+        success: true,
+        jobId: job.id,
+        imageBase64: image.toString("base64"),
+      };
+    }).catch((error) => {
+      if (!job.controller.signal.aborted) {
+        console.error("[Inpaint] Error:", error);
+      }
+    });
+
+    return new Response(createJobStream(job), {
+      headers: { ...SSE_HEADERS, [JOB_ID_HEADER]: job.id },
+    });
+  } catch (error) {
+    console.error("[Inpaint] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Touch-up failed" },
+      { status: 500 }
+    );
+  }
+}
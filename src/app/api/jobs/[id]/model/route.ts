@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { getJob } from "@/lib/jobs";
+
+/**
+ * Download the GLB produced by a finished 3D job
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const job = getJob(id);
+  const result = job?.result;
+
+  if (!result || !("glbBase64" in result)) {
+    return new Response(JSON.stringify({ error: "Model not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(Buffer.from(result.glbBase64, "base64"), {
+    headers: {
+      "Content-Type": "model/gltf-binary",
+      "Content-Disposition": `attachment; filename="avatar-3d.glb"`,
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, cancelJob, toJobSummary } from "@/lib/jobs";
+import type { JobSummary, ApiErrorResponse } from "@/lib/types";
+
+type JobRouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: NextRequest,
+  { params }: JobRouteContext
+): Promise<NextResponse<JobSummary | ApiErrorResponse>> {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(toJobSummary(job));
+}
+
+/**
+ * Cancel a running job and its in-flight predictions
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: JobRouteContext
+): Promise<NextResponse<JobSummary | ApiErrorResponse>> {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  cancelJob(job);
+  return NextResponse.json(toJobSummary(job));
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+import type { JobSourceResponse, ApiErrorResponse } from "@/lib/types";
+
+/**
+ * Input image of a job, so a reloaded tab can show what it is resuming
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<JobSourceResponse | ApiErrorResponse>> {
+  const { id } = await params;
+  const imageBase64 = getJob(id)?.sourceImageBase64;
+
+  if (!imageBase64) {
+    return NextResponse.json({ error: "Source image not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ imageBase64 });
+}
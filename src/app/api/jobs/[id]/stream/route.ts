@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { getJob, createJobStream, parseLastEventId } from "@/lib/jobs";
+import { SSE_HEADERS } from "@/lib/sse";
+
+/**
+ * Resume a job's event stream after the client's Last-Event-ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return new Response(JSON.stringify({ error: "Job not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(createJobStream(job, parseLastEventId(request)), {
+    headers: SSE_HEADERS,
+  });
+}
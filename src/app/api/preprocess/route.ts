@@ -1,57 +1,137 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getProvider } from "@/lib/providers";
 import {
-  getReplicateClient,
-  toDataUri,
-  handleReplicateOutput,
-  MODELS,
-} from "@/lib/replicate";
-import type { PreprocessRequest, PreprocessResponse, ApiErrorResponse } from "@/lib/types";
+  createJob,
+  runJob,
+  appendJobEvent,
+  createJobStream,
+  markJobIndexComplete,
+  markJobIndexFailed,
+  hasJobCapacity,
+} from "@/lib/jobs";
+import { SSE_HEADERS, JOB_ID_HEADER } from "@/lib/sse";
+import { MODEL_VIEW_ANGLES, MAX_PREPROCESS_CANDIDATES } from "@/lib/constants";
+import {
+  getStylePreset,
+  buildStylePrompt,
+  buildViewPrompt,
+  buildCleanupPrompt,
+  validatePromptAttributes,
+} from "@/lib/styles";
+import type { PreprocessRequest, ApiErrorResponse } from "@/lib/types";
 
 export const maxDuration = 120;
 
-const BASE_STYLE =
-  "3D animated Pixar-style character, Disney Pixar animation style, smooth skin, big expressive eyes, soft lighting, front facing, looking directly at camera, neutral expression, centered on pure black background";
-
-function buildPrompt(fullBody: boolean, stylePrompt?: string): string {
-  const customAddition = stylePrompt ? `, ${stylePrompt}` : "";
-
-  if (fullBody) {
-    return `Transform this person into a full body ${BASE_STYLE}. Show the complete body from head to feet, natural relaxed standing pose, arms at sides. Full body visible${customAddition}. Keep the same facial features and likeness but as a 3D animated cartoon character.`;
-  }
-
-  return `Transform this person into a ${BASE_STYLE}${customAddition}. Keep the same facial features and likeness but as a 3D animated cartoon character.`;
-}
-
+/**
+ * Start a stylize or cleanup job and stream its events; the result arrives
+ * with the complete event, and /api/jobs/[id]/stream resumes a dropped stream
+ */
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<PreprocessResponse | ApiErrorResponse>> {
+): Promise<Response | NextResponse<ApiErrorResponse>> {
   try {
     const body: PreprocessRequest = await request.json();
-    const { imageBase64, fullBody = false, stylePrompt } = body;
+    const {
+      imageBase64,
+      fullBody = false,
+      stylePrompt,
+      styleId,
+      mode = "stylize",
+      view,
+      candidates = 1,
+      attributes,
+    } = body;
 
     if (!imageBase64) {
       return NextResponse.json({ error: "No image provided" }, { status: 400 });
     }
 
-    const replicate = getReplicateClient();
-    const prompt = buildPrompt(fullBody, stylePrompt);
-
-    const output = await replicate.run(MODELS.NANO_BANANA_PRO, {
-      input: {
-        prompt,
-        image_input: [toDataUri(imageBase64)],
-        resolution: "2K",
-        aspect_ratio: fullBody ? "9:16" : "1:1",
-        output_format: "png",
-        safety_filter_level: "block_only_high",
-      },
-    });
+    if (mode !== "stylize" && mode !== "cleanup") {
+      return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 });
+    }
 
-    const resultBuffer = await handleReplicateOutput(output);
+    if (view !== undefined && !MODEL_VIEW_ANGLES.includes(view)) {
+      return NextResponse.json({ error: `Unknown view: ${view}` }, { status: 400 });
+    }
+
+    if (!Number.isInteger(candidates) || candidates < 1 || candidates > MAX_PREPROCESS_CANDIDATES) {
+      return NextResponse.json(
+        { error: `candidates must be an integer between 1 and ${MAX_PREPROCESS_CANDIDATES}` },
+        { status: 400 }
+      );
+    }
+
+    const attributesError = attributes === undefined ? null : validatePromptAttributes(attributes);
+    if (attributesError) {
+      return NextResponse.json({ error: attributesError }, { status: 400 });
+    }
+
+    const preset = getStylePreset(styleId);
+    if (!preset) {
+      return NextResponse.json({ error: `Unknown style: ${styleId}` }, { status: 400 });
+    }
+
+    const provider = getProvider();
+    const prompt = view
+      ? buildViewPrompt(preset, view, fullBody)
+      : mode === "cleanup"
+        ? buildCleanupPrompt(fullBody)
+        : buildStylePrompt(preset, fullBody, stylePrompt, attributes);
+    const variants = Array.from({ length: candidates }, (_, i) => i);
+    if (!hasJobCapacity()) {
+      return NextResponse.json(
+        { error: "Too many generations running, try again shortly" },
+        { status: 429 }
+      );
+    }
+
+    const job = createJob("preprocess", variants, imageBase64);
+    appendJobEvent(job, { type: "config", config: { kind: "preprocess", jobId: job.id } });
+
+    // Runs detached from the request so a dropped client can resume the job
+    runJob(job, async (signal) => {
+      // Candidates run in parallel; one failing does not discard the others
+      const settled = await Promise.allSettled(
+        variants.map((variant) =>
+          provider.stylize({
+            imageBase64,
+            prompt,
+            aspectRatio: fullBody ? preset.aspectRatios.fullBody : preset.aspectRatios.portrait,
+            variant,
+            signal,
+          })
+        )
+      );
+
+      const images = settled.flatMap((outcome, variant) => {
+        if (outcome.status === "fulfilled") {
+          markJobIndexComplete(job, variant);
+          return [outcome.value.toString("base64")];
+        }
+        if (!signal.aborted) {
+          const reason = outcome.reason;
+          markJobIndexFailed(job, variant, reason instanceof Error ? reason.message : "Stylization failed");
+        }
+        return [];
+      });
+      if (images.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+      }
+
+      return {
+        success: true,
+        jobId: job.id,
+        imageBase64: images[0],
+        candidates: images,
+      };
+    }).catch((error) => {
+      if (!job.controller.signal.aborted) {
+        console.error("[Preprocess] Error:", error);
+      }
+    });
 
-    return NextResponse.json({
-      success: true,
-      imageBase64: resultBuffer.toString("base64"),
+    return new Response(createJobStream(job), {
+      headers: { ...SSE_HEADERS, [JOB_ID_HEADER]: job.id },
     });
   } catch (error) {
     console.error("[Preprocess] Error:", error);
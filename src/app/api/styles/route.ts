@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listStylePresets, listPromptAttributes } from "@/lib/styles";
+import { DEFAULTS } from "@/lib/constants";
+import type { StylePresetsResponse } from "@/lib/types";
+
+/**
+ * List the available stylization presets and prompt composer attributes
+ */
+export async function GET(): Promise<NextResponse<StylePresetsResponse>> {
+  return NextResponse.json({
+    presets: listStylePresets(),
+    defaultId: DEFAULTS.STYLE_ID,
+    attributes: listPromptAttributes(),
+  });
+}
@@ -1,33 +1,379 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { ImageUpload } from "@/components/ImageUpload";
 import { Viewer3D } from "@/components/Viewer3D";
 import { ModelViewer } from "@/components/ModelViewer";
+import { ParallaxViewer } from "@/components/ParallaxViewer";
 import { ExportModal } from "@/components/ExportModal";
 import { RenderHistory } from "@/components/RenderHistory";
+import { ModelViews } from "@/components/ModelViews";
+import { StylePicker } from "@/components/StylePicker";
+import { CandidatePicker } from "@/components/CandidatePicker";
+import { PromptComposer } from "@/components/PromptComposer";
+import { ImageAdjustEditor } from "@/components/ImageAdjustEditor";
+import { InpaintEditor } from "@/components/InpaintEditor";
+import { TalkingHeadPlayer } from "@/components/TalkingHeadPlayer";
+import { GridAnglesEditor } from "@/components/GridAnglesEditor";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
-import { calculateCost, DEFAULTS } from "@/lib/constants";
+import { Input } from "@/components/ui/input";
+import {
+  calculateCost,
+  countFrames,
+  calculateFrameCost,
+  DEFAULTS,
+  DEFAULT_MODEL_SAMPLING,
+  MODEL_SAMPLING_LIMITS,
+  MODEL_VIEW_ANGLES,
+  PARALLAX_LIMITS,
+  MAX_PREPROCESS_CANDIDATES,
+  EXPRESSION_LAYERS,
+  EXPRESSION_LAYER_IDS,
+  VISEME_IDS,
+  DEFAULT_GRID_ANGLES,
+  MAX_EYE_STEPS,
+  POLAR_LIMITS,
+  calculatePreprocessCost,
+  calculateInpaintCost,
+  generateSteps,
+  generateRefinementSteps,
+  upsampleLayout,
+} from "@/lib/constants";
 import {
   saveRender,
   getCachedPreprocessed,
   cachePreprocessed,
+  getCachedInpainted,
+  cacheInpainted,
+  updateRender,
+  getActiveJobId,
+  setActiveJobId,
+  clearActiveJobId,
   type SavedRender,
+  type PreprocessCacheOptions,
+  type RestyleSource,
 } from "@/lib/storage";
-import type { GeneratedImage, GenerationStatus, GenerationMode, StreamEvent } from "@/lib/types";
-import { Loader2, Sparkles, Box, MousePointer2, User, Download, Wand2, Pencil, X } from "lucide-react";
+import { followJobStream, JOB_ID_HEADER } from "@/lib/sse";
+import { removeBackground } from "@/lib/matting";
+import { estimateDepth } from "@/lib/depth";
+import { DEFAULT_ADJUSTMENTS, applyAdjustments, isDefaultAdjustments } from "@/lib/adjust";
+import { REFINE_SETTINGS, findRefinementPairs } from "@/lib/refine";
+import { upsampleFrames } from "@/lib/inbetween";
+import type {
+  GeneratedImage,
+  GenerationStatus,
+  GenerationMode,
+  FrameOrder,
+  JobSummary,
+  JobSourceResponse,
+  PredictionProgress,
+  PredictionStatus,
+  Generate3DRequest,
+  GenerateStreamRequest,
+  ModelSamplingParams,
+  ModelStreamConfig,
+  ModelView,
+  ViewAngle,
+  StylePresetId,
+  StylePresetSummary,
+  StylePresetsResponse,
+  PreprocessMode,
+  FrameMimeType,
+  PreprocessRequest,
+  PreprocessResponse,
+  InpaintRequest,
+  InpaintResponse,
+  PromptAttributes,
+  PromptAttributeSummary,
+  ImageAdjustments,
+  ExpressionLayerId,
+  ExpressionTrigger,
+  GridAngles,
+  GridType,
+  FrameLayout,
+  FrameLayoutKind,
+  FramePair,
+  GenerateStepsOptions,
+} from "@/lib/types";
+import { Loader2, Sparkles, Box, Layers, MousePointer2, User, Download, Wand2, Pencil, X, Square, AlertTriangle, RotateCcw, GitCompareArrows, Grid2x2Plus, ChevronDown, ChevronUp, Lock, Dices, AudioLines } from "lucide-react";
 import Image from "next/image";
 
+const FRAME_ORDER_OPTIONS: { value: FrameOrder; label: string; description: string }[] = [
+  { value: "center-out", label: "Spiral", description: "Center first, then spiralling outwards" },
+  { value: "coarse-to-fine", label: "Coarse", description: "Sparse grid first, then fill in between" },
+  { value: "row-major", label: "Rows", description: "Top-left to bottom-right" },
+];
+
+/**
+ * Inputs a render was generated from, saved alongside its output
+ */
+interface RenderSource {
+  originalImageBase64: string;
+  processedImageBase64: string;
+  stylePrompt?: string;
+  promptAttributes?: PromptAttributes;
+  styleId?: StylePresetId;
+  preprocessMode?: PreprocessMode;
+  views?: ModelView[];
+  frameMimeType?: FrameMimeType; // Matte frames onto a transparent background in this format
+  expressionTrigger?: ExpressionTrigger;
+  processedAlphaBase64?: string;
+  rejectedCandidates?: string[];
+  parentId?: string; // Set when restyling a saved render
+  restyleSource?: RestyleSource;
+  imageAdjustments?: ImageAdjustments;
+  uneditedImageBase64?: string; // processedImageBase64 before adjustments
+}
+
+// Shows the alpha channel of matted images
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: "#3f3f46",
+  backgroundImage: "conic-gradient(#52525b 25%, transparent 0 50%, #52525b 0 75%, transparent 0)",
+  backgroundSize: "24px 24px",
+};
+
+// Parallax renders are a single, straight-on frame
+const PARALLAX_STEP = generateSteps({ xSteps: 1, ySteps: 1, prefix: "parallax" }).steps[0][0];
+
+const FRAME_FORMAT_OPTIONS: { value: FrameMimeType; label: string }[] = [
+  { value: "image/png", label: "PNG" },
+  { value: "image/webp", label: "WebP" },
+];
+
+const PREPROCESS_MODE_OPTIONS: { value: PreprocessMode; label: string; description: string }[] = [
+  { value: "stylize", label: "Stylize", description: "Restyle the photo with the selected preset" },
+  { value: "cleanup", label: "Cleanup", description: "Keep the photo realistic; only clean the background and center it" },
+  { value: "passthrough", label: "Original", description: "Skip preprocessing and use the photo as-is" },
+];
+
+const MODEL_SAMPLING_FIELDS: {
+  key: keyof ModelSamplingParams;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "ssSamplingSteps", label: "Structure Steps", min: MODEL_SAMPLING_LIMITS.MIN_STEPS, max: MODEL_SAMPLING_LIMITS.MAX_STEPS, step: 1 },
+  { key: "ssGuidanceStrength", label: "Structure Guidance", min: MODEL_SAMPLING_LIMITS.MIN_GUIDANCE, max: MODEL_SAMPLING_LIMITS.MAX_GUIDANCE, step: 0.5 },
+  { key: "slatSamplingSteps", label: "Detail Steps", min: MODEL_SAMPLING_LIMITS.MIN_STEPS, max: MODEL_SAMPLING_LIMITS.MAX_STEPS, step: 1 },
+  { key: "slatGuidanceStrength", label: "Detail Guidance", min: MODEL_SAMPLING_LIMITS.MIN_GUIDANCE, max: MODEL_SAMPLING_LIMITS.MAX_GUIDANCE, step: 0.5 },
+];
+
+const MODEL_STATUS_LABELS: Record<PredictionStatus, string> = {
+  starting: "Starting model",
+  processing: "Generating 3D model",
+  succeeded: "Finishing up",
+  failed: "Failed",
+  canceled: "Cancelled",
+};
+
+/**
+ * POST a request that starts a server-side job. The job runs on without its
+ * stream, so aborting cancels it by id; the request itself is only aborted
+ * once the response (and with it the job id) has arrived.
+ */
+async function startJob(
+  path: "/api/preprocess" | "/api/inpaint" | "/api/generate/stream" | "/api/generate-3d",
+  body: PreprocessRequest | InpaintRequest | GenerateStreamRequest | Generate3DRequest,
+  signal: AbortSignal
+): Promise<Response> {
+  const request = new AbortController();
+  let jobId: string | null = null;
+  const cancel = () => {
+    request.abort();
+    if (jobId) fetch(`/api/jobs/${jobId}`, { method: "DELETE", keepalive: true }).catch(console.error);
+  };
+
+  const response = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: request.signal,
+  });
+  jobId = response.headers.get(JOB_ID_HEADER);
+
+  // Cancelled while the request was in flight; the job is known only now
+  if (signal.aborted) {
+    cancel();
+    signal.throwIfAborted();
+  }
+  signal.addEventListener("abort", cancel, { once: true });
+  return response;
+}
+
+/**
+ * Run a preprocess or inpaint job, following its stream (and resuming it when
+ * the connection drops) until the result arrives. Aborting cancels the job.
+ */
+async function requestImageJob<T extends PreprocessResponse | InpaintResponse>(
+  path: "/api/preprocess" | "/api/inpaint",
+  body: PreprocessRequest | InpaintRequest,
+  failureMessage: string,
+  signal: AbortSignal = new AbortController().signal
+): Promise<T> {
+  const response = await startJob(path, body, signal);
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || failureMessage);
+  }
+
+  let result: T | undefined;
+  await followJobStream({
+    response,
+    signal,
+    onEvent: (event) => {
+      if (event.type === "complete") result = event.result as T | undefined;
+    },
+  });
+
+  if (!result) throw new Error(`${failureMessage}: job was cancelled`);
+  return result;
+}
+
+/**
+ * Redraw the stylized character from another angle via the preprocess model
+ */
+async function requestView(
+  frontImageBase64: string,
+  angle: ViewAngle,
+  styleId: StylePresetId,
+  signal?: AbortSignal
+): Promise<ModelView> {
+  const data = await requestImageJob<PreprocessResponse>(
+    "/api/preprocess",
+    { imageBase64: frontImageBase64, fullBody: true, styleId, view: angle },
+    "View generation failed",
+    signal
+  );
+  return { angle, imageBase64: data.imageBase64, source: "generated" };
+}
+
+/**
+ * Matte frames that are still on black in place, one at a time to keep memory flat
+ */
+async function matteFrames(
+  images: GeneratedImage[],
+  mimeType: FrameMimeType,
+  signal: AbortSignal,
+  onFrame: (done: number, total: number) => void
+): Promise<void> {
+  const pending = images.filter((img) => !img.mimeType);
+  for (const [i, img] of pending.entries()) {
+    if (signal.aborted) return;
+    img.imageBase64 = await removeBackground(img.imageBase64, mimeType);
+    img.mimeType = mimeType;
+    onFrame(i + 1, pending.length);
+  }
+}
+
+/**
+ * Encode binary data as base64 without blowing the call stack on large buffers
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Grid the frames on screen were generated for. Frame settings edited after a
+ * run only apply to the next Generate, so lookups and retries use this instead.
+ */
+type FrameGrid = Required<
+  Pick<SavedRender, "xSteps" | "ySteps" | "expressions" | "gridAngles" | "gridType" | "layout">
+>;
+
+/**
+ * The grid a saved cursor render was generated for
+ */
+function savedFrameGrid(render: SavedRender & { xSteps: number; ySteps: number }): FrameGrid {
+  const eyes = render.gridType === "eyes";
+  return {
+    xSteps: render.xSteps,
+    ySteps: render.ySteps,
+    expressions: render.expressions ?? [],
+    gridAngles: render.gridAngles ?? DEFAULT_GRID_ANGLES,
+    gridType: render.gridType ?? "head",
+    layout: render.layout ?? {
+      kind: "grid",
+      xSteps: render.xSteps,
+      ySteps: render.ySteps,
+      eyeXSteps: eyes ? (render.eyeXSteps ?? DEFAULTS.EYE_X_STEPS) : 1,
+      eyeYSteps: eyes ? (render.eyeYSteps ?? DEFAULTS.EYE_Y_STEPS) : 1,
+    },
+  };
+}
+
+/**
+ * Step and request options that reproduce a frame grid
+ */
+function frameGridOptions({
+  xSteps,
+  ySteps,
+  expressions,
+  gridAngles,
+  gridType,
+  layout,
+}: FrameGrid): Omit<GenerateStepsOptions, "prefix"> {
+  return {
+    xSteps,
+    ySteps,
+    expressions,
+    angles: gridAngles,
+    gridType,
+    layout: layout.kind,
+    ...(layout.kind === "polar"
+      ? { rings: layout.rings, directions: layout.directions }
+      : { eyeXSteps: layout.eyeXSteps, eyeYSteps: layout.eyeYSteps }),
+  };
+}
+
 export default function Home() {
   const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [processedImageBase64, setProcessedImageBase64] = useState<string | null>(null);
+  const [currentRenderId, setCurrentRenderId] = useState<string | null>(null);
   const [xSteps, setXSteps] = useState<number>(DEFAULTS.X_STEPS);
   const [ySteps, setYSteps] = useState<number>(DEFAULTS.Y_STEPS);
+  const [frameOrder, setFrameOrder] = useState<FrameOrder>(DEFAULTS.FRAME_ORDER);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [frameFormat, setFrameFormat] = useState<FrameMimeType>("image/png");
+  // Extra frame layers per grid cell, and how the viewer switches to them
+  const [expressionLayers, setExpressionLayers] = useState<ExpressionLayerId[]>([]);
+  const [expressionTrigger, setExpressionTrigger] = useState<ExpressionTrigger>("click");
+  const [gridAngles, setGridAngles] = useState<GridAngles>(DEFAULT_GRID_ANGLES);
+  // Eyes grids keep the head near centre and nest an eye grid in each head cell
+  const [gridType, setGridType] = useState<GridType>(DEFAULTS.GRID_TYPE);
+  const [eyeXSteps, setEyeXSteps] = useState<number>(DEFAULTS.EYE_X_STEPS);
+  const [eyeYSteps, setEyeYSteps] = useState<number>(DEFAULTS.EYE_Y_STEPS);
+  // Polar layouts trade the grid's rarely reached corners for rings of directions
+  const [layoutKind, setLayoutKind] = useState<FrameLayoutKind>(DEFAULTS.LAYOUT);
+  const [rings, setRings] = useState<number>(DEFAULTS.RINGS);
+  const [directions, setDirections] = useState<number>(DEFAULTS.DIRECTIONS);
+  // Parents of the in-between frames added by Refine, after the base frames
+  const [refinements, setRefinements] = useState<FramePair[]>([]);
+  // Frames sit on a denser grid whose extra cells were synthesized in the browser
+  const [upsampled, setUpsampled] = useState(false);
+  const [frameGrid, setFrameGrid] = useState<FrameGrid | null>(null);
+  const [isUpsampling, setIsUpsampling] = useState(false);
+  const [showAdvancedGrid, setShowAdvancedGrid] = useState(false);
+  const [processedAlphaBase64, setProcessedAlphaBase64] = useState<string | null>(null);
+  const [parallaxStrength, setParallaxStrength] = useState<number>(DEFAULTS.PARALLAX_STRENGTH);
+  const [candidateCount, setCandidateCount] = useState<number>(DEFAULTS.PREPROCESS_CANDIDATES);
+  const [keepRejectedCandidates, setKeepRejectedCandidates] = useState(false);
+  // Stylization candidates waiting to be picked, with the settings they were made with
+  const [candidates, setCandidates] = useState<{
+    images: string[];
+    cacheOptions: PreprocessCacheOptions;
+  } | null>(null);
   const [status, setStatus] = useState<GenerationStatus>("idle");
   const [progress, setProgress] = useState(0);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
@@ -37,33 +383,195 @@ export default function Home() {
 
   // Style prompt for preprocessing
   const [stylePrompt, setStylePrompt] = useState("");
+  const [promptAttributes, setPromptAttributes] = useState<PromptAttributes>({});
+  // Canvas edits applied between preprocessing and generation
+  const [adjustBeforeGenerate, setAdjustBeforeGenerate] = useState(false);
+  const [imageAdjustments, setImageAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [pendingAdjust, setPendingAdjust] = useState<{
+    original: string;
+    imageToUse: string;
+    rejectedCandidates?: string[];
+    touchingUp?: boolean; // Painting an inpaint mask instead of adjusting
+  } | null>(null);
+  const [isInpainting, setIsInpainting] = useState(false);
+  // Saved render being restyled; new renders are recorded as its children
+  const [restyleParent, setRestyleParent] = useState<{ id: string; source: RestyleSource } | null>(null);
+  const [promptAttributeOptions, setPromptAttributeOptions] = useState<PromptAttributeSummary[]>([]);
+  const [styleId, setStyleId] = useState<StylePresetId>(DEFAULTS.STYLE_ID);
+  const [preprocessMode, setPreprocessMode] = useState<PreprocessMode>(DEFAULTS.PREPROCESS_MODE);
+  const [stylePresets, setStylePresets] = useState<StylePresetSummary[]>([]);
   const [showStyleModal, setShowStyleModal] = useState(false);
 
   // 3D Model settings
   const [textureSize, setTextureSize] = useState<number>(DEFAULTS.TEXTURE_SIZE);
   const [meshQuality, setMeshQuality] = useState<number>(DEFAULTS.MESH_QUALITY);
+  const [modelProgress, setModelProgress] = useState<PredictionProgress | null>(null);
+  const [seedInput, setSeedInput] = useState(""); // Empty for a random seed
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
+  const [modelSampling, setModelSampling] = useState<ModelSamplingParams>(DEFAULT_MODEL_SAMPLING);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // Extra side/back views for multi-view 3D input
+  const [multiView, setMultiView] = useState(false);
+  const [views, setViews] = useState<ModelView[]>([]);
+  const [pendingViewAngles, setPendingViewAngles] = useState<ViewAngle[]>([]);
 
   // History refresh trigger
   const [historyRefresh, setHistoryRefresh] = useState(0);
 
-  const estimatedCost = calculateCost(xSteps, ySteps);
-  const totalImages = xSteps * ySteps;
+  // Aborts the in-flight generation requests
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The render on screen, read after long local work to check it wasn't replaced
+  const currentRenderIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    currentRenderIdRef.current = currentRenderId;
+  }, [currentRenderId]);
+
+  const frameLayout = useMemo<FrameLayout>(
+    () =>
+      layoutKind === "polar"
+        ? { kind: "polar", rings, directions }
+        : {
+            kind: "grid",
+            xSteps,
+            ySteps,
+            eyeXSteps: gridType === "eyes" ? eyeXSteps : 1,
+            eyeYSteps: gridType === "eyes" ? eyeYSteps : 1,
+          },
+    [layoutKind, rings, directions, xSteps, ySteps, gridType, eyeXSteps, eyeYSteps]
+  );
+  const renderLayout = frameGrid?.layout ?? frameLayout;
+  const renderExpressions = frameGrid?.expressions ?? expressionLayers;
+  const viewLayout = useMemo(
+    () => (upsampled ? upsampleLayout(renderLayout) : renderLayout),
+    [upsampled, renderLayout]
+  );
+  const estimatedCost = calculateCost(frameLayout, expressionLayers);
+  const styleName = stylePresets.find((preset) => preset.id === styleId)?.name ?? "styled";
+  // Unstyled photos get realistic extra views rather than the selected preset
+  const viewStyleId: StylePresetId = preprocessMode === "stylize" ? styleId : "photoreal-clean";
+  const preprocessCost = calculatePreprocessCost(preprocessMode, candidateCount);
+  // Composer selections only shape stylization
+  const activeAttributes =
+    preprocessMode === "stylize" && Object.keys(promptAttributes).length > 0
+      ? promptAttributes
+      : undefined;
+  const baseFrameCount =
+    generationMode === "talking"
+      ? VISEME_IDS.length
+      : countFrames(viewLayout, renderExpressions);
+  const totalImages = baseFrameCount + (generationMode === "talking" ? 0 : refinements.length);
+
+  // Angles of the neutral cells and refinement frames, for the viewer's nearest-angle lookup
+  const frameRefinement = useMemo(() => {
+    if (generationMode !== "cursor" || !frameGrid || refinements.length === 0) return undefined;
+    const cellSteps = generateSteps({ ...frameGridOptions(frameGrid), prefix: "avatar" }).steps.flat();
+    return {
+      angles: frameGrid.gridAngles,
+      gridType: frameGrid.gridType,
+      cellSteps,
+      refinedSteps: generateRefinementSteps(cellSteps, refinements, baseFrameCount, "avatar"),
+    };
+  }, [generationMode, frameGrid, refinements, baseFrameCount]);
+
+  // Exports keep to the base layout; refinement frames only serve the in-app viewer
+  const exportImages = useMemo(
+    () => generatedImages.filter((img, i) => (img.index ?? i) < baseFrameCount),
+    [generatedImages, baseFrameCount]
+  );
+
+  // Grid cells without a frame once generation has finished (failed frames)
+  const missingIndices = useMemo(() => {
+    if (
+      status !== "complete" ||
+      (generationMode !== "cursor" && generationMode !== "talking") ||
+      generatedImages.length === 0
+    ) return [];
+    const present = new Set(generatedImages.map((img) => img.index));
+    return Array.from({ length: totalImages }, (_, i) => i).filter((i) => !present.has(i));
+  }, [status, generationMode, generatedImages, totalImages]);
+
+  // Load style presets from the server registry
+  useEffect(() => {
+    fetch("/api/styles")
+      .then((response) => response.json())
+      .then((data: StylePresetsResponse) => {
+        setStylePresets(data.presets);
+        setPromptAttributeOptions(data.attributes);
+      })
+      .catch((err) => console.error("Failed to load style presets:", err));
+  }, []);
 
   const handleImageSelect = useCallback((base64: string, preview: string) => {
     setOriginalImageBase64(base64);
     setPreviewUrl(preview);
+    setProcessedImageBase64(null);
+    setProcessedAlphaBase64(null);
+    setCandidates(null);
+    setPendingAdjust(null);
+    setFrameGrid(null);
+    setImageAdjustments(DEFAULT_ADJUSTMENTS);
+    setRestyleParent(null);
+    setCurrentRenderId(null);
     setGeneratedImages([]);
     setGlbBase64(null);
+    setViews([]);
     setStatus("idle");
     setProgress(0);
   }, []);
 
+  // Restore the 3D settings a saved render was generated with
+  const applyModelParams = useCallback((render: SavedRender) => {
+    if (render.textureSize) setTextureSize(render.textureSize);
+    if (render.meshQuality) setMeshQuality(render.meshQuality);
+    if (render.modelSampling) setModelSampling(render.modelSampling);
+    setLastSeed(render.seed ?? null);
+    setViews(render.views ?? []);
+    setMultiView(!!render.views?.length);
+  }, []);
+
+  // Restore a saved grid's type and layout, keeping settings the grid did not use
+  const applyGridOptions = useCallback(
+    (
+      grid: Pick<
+        SavedRender,
+        "gridType" | "eyeXSteps" | "eyeYSteps" | "layout" | "refinements" | "upsampled"
+      >
+    ) => {
+      setGridType(grid.gridType ?? "head");
+      if (grid.gridType === "eyes" && grid.layout?.kind !== "polar") {
+        setEyeXSteps(grid.eyeXSteps ?? DEFAULTS.EYE_X_STEPS);
+        setEyeYSteps(grid.eyeYSteps ?? DEFAULTS.EYE_Y_STEPS);
+      }
+      setLayoutKind(grid.layout?.kind ?? "grid");
+      if (grid.layout?.kind === "polar") {
+        setRings(grid.layout.rings);
+        setDirections(grid.layout.directions);
+      }
+      setRefinements(grid.refinements ?? []);
+      setUpsampled(grid.upsampled ?? false);
+    },
+    []
+  );
+
   // Load a saved render from history
   const handleLoadRender = useCallback((render: SavedRender) => {
     setOriginalImageBase64(render.originalImageBase64);
     setPreviewUrl(`data:image/png;base64,${render.processedImageBase64}`);
+    setProcessedImageBase64(render.processedImageBase64);
+    setProcessedAlphaBase64(render.processedAlphaBase64 ?? null);
+    setRestyleParent(null);
+    setPendingAdjust(null);
+    setImageAdjustments(render.imageAdjustments ?? DEFAULT_ADJUSTMENTS);
+    setCurrentRenderId(render.id);
     setGenerationMode(render.mode);
     setStylePrompt(render.stylePrompt || "");
+    setPromptAttributes(render.promptAttributes ?? {});
+    setStyleId(render.styleId ?? DEFAULTS.STYLE_ID);
+    setPreprocessMode(render.preprocessMode ?? DEFAULTS.PREPROCESS_MODE);
+    applyModelParams(render);
+    setFrameGrid(null);
 
     if (render.mode === "3d-model" && render.glbBase64) {
       // Load 3D model directly
@@ -73,17 +581,58 @@ export default function Home() {
       toast.success("3D model loaded");
     } else if (render.mode === "cursor" && render.generatedFrames && render.xSteps && render.ySteps) {
       // Load cursor frames directly
+      setFrameGrid(savedFrameGrid({ ...render, xSteps: render.xSteps, ySteps: render.ySteps }));
       setXSteps(render.xSteps);
       setYSteps(render.ySteps);
+      setExpressionLayers(render.expressions ?? []);
+      setExpressionTrigger(render.expressionTrigger ?? "click");
+      setGridAngles(render.gridAngles ?? DEFAULT_GRID_ANGLES);
+      applyGridOptions(render);
+      setTransparentBackground(!!render.frameMimeType);
+      if (render.frameMimeType) setFrameFormat(render.frameMimeType);
       setGlbBase64(null);
-      const images: GeneratedImage[] = render.generatedFrames.map((frame, index) => ({
-        imageBase64: frame,
-        index,
-        step: { filename: `frame-${index}`, rotate_yaw: 0, rotate_pitch: 0, pupil_x: 0, pupil_y: 0, crop_factor: 1.7, output_quality: 100, src_ratio: 1, sample_ratio: 1 },
-      }));
+      const synthesized = new Set(render.synthesizedIndices);
+      const images: GeneratedImage[] = render.generatedFrames.map((frame, i) => {
+        const index = render.frameIndices?.[i] ?? i;
+        return {
+          imageBase64: frame,
+          mimeType: render.frameMimeType,
+          index,
+          synthesized: synthesized.has(index) || undefined,
+          step: { filename: `frame-${index}`, rotate_yaw: 0, rotate_pitch: 0, pupil_x: 0, pupil_y: 0, crop_factor: 1.7, output_quality: 100, src_ratio: 1, sample_ratio: 1 },
+        };
+      });
       setGeneratedImages(images);
       setStatus("complete");
       toast.success("Render loaded");
+    } else if (render.mode === "talking" && render.generatedFrames) {
+      setGlbBase64(null);
+      setGeneratedImages(
+        render.generatedFrames.map((frame, i) => {
+          const index = render.frameIndices?.[i] ?? i;
+          return {
+            imageBase64: frame,
+            mimeType: render.frameMimeType,
+            index,
+            step: { filename: `viseme-${VISEME_IDS[index]}`, viseme: VISEME_IDS[index], rotate_yaw: 0, rotate_pitch: 0, pupil_x: 0, pupil_y: 0, crop_factor: 1.7, output_quality: 100, src_ratio: 1, sample_ratio: 1 },
+          };
+        })
+      );
+      setStatus("complete");
+      toast.success("Talking head loaded");
+    } else if (render.mode === "parallax" && render.depthBase64) {
+      setGlbBase64(null);
+      setParallaxStrength(render.parallaxStrength ?? DEFAULTS.PARALLAX_STRENGTH);
+      setGeneratedImages([
+        {
+            step: PARALLAX_STEP,
+            imageBase64: render.processedImageBase64,
+            depthBase64: render.depthBase64,
+            index: 0,
+        },
+      ]);
+      setStatus("complete");
+      toast.success("Parallax avatar loaded");
     } else {
       // Fallback: load preview, user needs to regenerate
       setGlbBase64(null);
@@ -91,197 +640,1103 @@ export default function Home() {
       if (render.mode === "cursor" && render.xSteps && render.ySteps) {
         setXSteps(render.xSteps);
         setYSteps(render.ySteps);
+        setExpressionLayers(render.expressions ?? []);
+        setGridAngles(render.gridAngles ?? DEFAULT_GRID_ANGLES);
+        applyGridOptions(render);
       }
       setStatus("idle");
       toast.success("Image loaded - click Generate to recreate");
     }
+  }, [applyModelParams, applyGridOptions]);
+
+  // Consume a frames job stream (reconnects with Last-Event-ID when the connection drops)
+  const streamFrames = useCallback(async ({
+    response,
+    toastId,
+    source,
+    signal,
+    baseImages = [],
+    renderId = null,
+  }: {
+    response: Response;
+    toastId: string | number;
+    source: RenderSource;
+    signal: AbortSignal;
+    baseImages?: GeneratedImage[];
+    renderId?: string | null;
+  }) => {
+    const images: GeneratedImage[] = [...baseImages];
+    let gridX: number = DEFAULTS.X_STEPS;
+    let gridY: number = DEFAULTS.Y_STEPS;
+    let gridExpressions: ExpressionLayerId[] = [];
+    let angles: GridAngles = DEFAULT_GRID_ANGLES;
+    let gridOptions: Pick<
+      SavedRender,
+      "gridType" | "eyeXSteps" | "eyeYSteps" | "layout" | "refinements"
+    > = {};
+    let visemes = false;
+
+    await followJobStream({
+      response,
+      signal,
+      onReconnect: () => toast.loading("Connection lost, reconnecting...", { id: toastId }),
+      onEvent: async (data) => {
+        if (data.type === "config" && data.config.kind === "frames") {
+          visemes = data.config.visemes;
+          if (visemes) {
+            // The lip-sync set is not a grid; leave the grid settings alone
+            setGenerationMode("talking");
+            setFrameGrid(null);
+          } else {
+            gridX = data.config.xSteps;
+            gridY = data.config.ySteps;
+            gridExpressions = data.config.expressions;
+            angles = data.config.angles;
+            gridOptions = {
+              gridType: data.config.gridType,
+              eyeXSteps: data.config.eyeXSteps,
+              eyeYSteps: data.config.eyeYSteps,
+              layout: data.config.layout,
+              refinements: data.config.refinements,
+            };
+            applyGridOptions(gridOptions);
+            setFrameGrid({
+              xSteps: gridX,
+              ySteps: gridY,
+              expressions: gridExpressions,
+              gridAngles: angles,
+              gridType: data.config.gridType,
+              layout: data.config.layout,
+            });
+            setXSteps(gridX);
+            setYSteps(gridY);
+            setExpressionLayers(gridExpressions);
+            setGridAngles(angles);
+          }
+          setActiveJobId(data.config.jobId);
+        } else if (data.type === "progress") {
+          const pct = (data.completed / data.total) * 100;
+          setProgress(pct);
+          // A frame an earlier connection already received stays a gap for Retry
+          if (data.imageBase64) {
+            images.push({
+              step: data.step,
+              imageBase64: data.imageBase64,
+              index: data.index,
+            });
+            setGeneratedImages([...images]);
+          }
+          toast.loading(`Generating... ${Math.round(pct)}%`, { id: toastId });
+        } else if (data.type === "frame_failed") {
+          const pct = (data.completed / data.total) * 100;
+          setProgress(pct);
+          console.error(`Frame ${data.index} failed:`, data.error);
+          toast.loading(`Generating... ${Math.round(pct)}% (frame ${data.index + 1} failed)`, {
+            id: toastId,
+          });
+        } else if (data.type === "complete") {
+          clearActiveJobId();
+
+          // Matte frames that are still on black; retried renders keep their matted frames
+          let frameMimeType: FrameMimeType | undefined;
+          if (source.frameMimeType) {
+            try {
+              await matteFrames(images, source.frameMimeType, signal, (done, total) => {
+                setGeneratedImages([...images]);
+                toast.loading(`Removing backgrounds... ${done}/${total}`, { id: toastId });
+              });
+              frameMimeType = source.frameMimeType;
+            } catch (err) {
+              if (signal.aborted) return;
+              // Keep the frames on black rather than losing the render
+              console.error("Background removal failed:", err);
+              toast.error("Background removal failed, keeping black backgrounds");
+            }
+            if (signal.aborted) return;
+          }
+
+          setStatus("complete");
+          setProgress(100);
+
+          const { succeeded, failed } = data.summary;
+          if (failed > 0) {
+            toast.warning(`${succeeded} frames generated, ${failed} failed`, {
+              id: toastId,
+              description: "Use Retry to fill in the missing frames",
+            });
+          } else {
+            toast.success(`${succeeded} frames generated`, { id: toastId });
+          }
+
+          // Save to history with all frames sorted by index (IndexedDB can handle it)
+          const sortedImages = [...images].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+          const frames = {
+            generatedFrames: sortedImages.map((img) => img.imageBase64),
+            frameIndices: sortedImages.map((img, i) => img.index ?? i),
+            frameCount: sortedImages.length,
+            frameMimeType,
+          };
+
+          // Retries rewrite the grid too, so the render always matches its frames
+          const grid = visemes
+            ? {}
+            : {
+                xSteps: gridX,
+                ySteps: gridY,
+                expressions: gridExpressions,
+                expressionTrigger: source.expressionTrigger,
+                gridAngles: angles,
+                ...gridOptions,
+              };
+          const updated = renderId ? await updateRender(renderId, { ...frames, ...grid }) : null;
+          if (!updated) {
+            const saved = await saveRender({
+              mode: visemes ? "talking" : "cursor",
+              originalImageBase64: source.originalImageBase64,
+              processedImageBase64: source.processedImageBase64,
+              ...frames,
+              ...grid,
+              stylePrompt: source.stylePrompt,
+              promptAttributes: source.promptAttributes,
+              parentId: source.parentId,
+              restyleSource: source.restyleSource,
+              imageAdjustments: source.imageAdjustments,
+              uneditedImageBase64: source.uneditedImageBase64,
+              styleId: source.styleId,
+              preprocessMode: source.preprocessMode,
+              processedAlphaBase64: source.processedAlphaBase64,
+              rejectedCandidates: source.rejectedCandidates,
+            });
+            setCurrentRenderId(saved.id);
+          }
+          setHistoryRefresh((n) => n + 1);
+        } else if (data.type === "cancelled") {
+          clearActiveJobId();
+          setStatus("idle");
+          toast.info("Generation cancelled", { id: toastId });
+        }
+      },
+    });
+  }, [applyGridOptions]);
+
+  // Consume a 3D model job stream, reporting prediction status and sampling progress
+  const streamModel = useCallback(async ({
+    response,
+    toastId,
+    source,
+    signal,
+  }: {
+    response: Response;
+    toastId: string | number;
+    source: RenderSource;
+    signal: AbortSignal;
+  }) => {
+    let config: ModelStreamConfig | null = null;
+
+    await followJobStream({
+      response,
+      signal,
+      onReconnect: () => toast.loading("Connection lost, reconnecting...", { id: toastId }),
+      onEvent: async (data) => {
+        if (data.type === "config" && data.config.kind === "model") {
+          config = data.config;
+          setActiveJobId(config.jobId);
+          setLastSeed(config.seed);
+          setModelProgress({ status: "starting" });
+        } else if (data.type === "status") {
+          setModelProgress({ status: data.status, percent: data.percent, logs: data.logs });
+          const label = MODEL_STATUS_LABELS[data.status];
+          toast.loading(
+            data.percent !== undefined ? `${label}... ${data.percent}%` : `${label}...`,
+            { id: toastId }
+          );
+        } else if (data.type === "complete" && data.model) {
+          clearActiveJobId();
+          const modelResponse = await fetch(data.model.path, { signal });
+          if (!modelResponse.ok) throw new Error("Failed to download 3D model");
+          const glb = arrayBufferToBase64(await modelResponse.arrayBuffer());
+
+          setGlbBase64(glb);
+          setModelProgress(null);
+          setStatus("complete");
+          toast.success("3D model ready!", { id: toastId });
+
+          // Save to history (IndexedDB can handle large GLB files)
+          const saved = await saveRender({
+            mode: "3d-model",
+            originalImageBase64: source.originalImageBase64,
+            processedImageBase64: source.processedImageBase64,
+            glbBase64: glb,
+            stylePrompt: source.stylePrompt,
+            promptAttributes: source.promptAttributes,
+            parentId: source.parentId,
+            restyleSource: source.restyleSource,
+            imageAdjustments: source.imageAdjustments,
+            uneditedImageBase64: source.uneditedImageBase64,
+            styleId: source.styleId,
+            preprocessMode: source.preprocessMode,
+            textureSize: config?.textureSize,
+            meshQuality: config?.meshQuality,
+            seed: config?.seed,
+            modelSampling: config?.sampling,
+            views: source.views,
+            processedAlphaBase64: source.processedAlphaBase64,
+            rejectedCandidates: source.rejectedCandidates,
+          });
+          setCurrentRenderId(saved.id);
+          setHistoryRefresh((n) => n + 1);
+        } else if (data.type === "cancelled") {
+          clearActiveJobId();
+          setModelProgress(null);
+          setStatus("idle");
+          toast.info("Generation cancelled", { id: toastId });
+        }
+      },
+    });
   }, []);
 
-  const handleGenerate = useCallback(async () => {
-    if (!originalImageBase64) return;
+  // Start a 3D job from a processed image and follow it to completion
+  const runModelGeneration = useCallback(async ({
+    toastId,
+    source,
+    params,
+    signal,
+  }: {
+    toastId: string | number;
+    source: RenderSource;
+    params: Omit<Generate3DRequest, "imageBase64" | "views">;
+    signal: AbortSignal;
+  }) => {
+    setStatus("generating3d");
+    toast.loading("Generating 3D model... (this may take 1-2 min)", { id: toastId });
 
-    setStatus("preprocessing");
-    setProgress(0);
-    setGeneratedImages([]);
-    setGlbBase64(null);
+    try {
+      const response = await startJob(
+        "/api/generate-3d",
+        {
+          imageBase64: source.processedImageBase64,
+          views: source.views,
+          ...params,
+        },
+        signal
+      );
 
-    const toastId = toast.loading("Creating Pixar-style character...");
-    const fullBody = generationMode === "3d-model";
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "3D generation failed");
+      }
 
-    let imageToUse = originalImageBase64;
+      await streamModel({ response, toastId, source, signal });
+    } catch (err) {
+      if (signal.aborted) return;
+      clearActiveJobId();
+      setModelProgress(null);
+      setStatus("error");
+      const message = err instanceof Error ? err.message : "An error occurred";
+      toast.error("3D generation failed", { id: toastId, description: message });
+    }
+  }, [streamModel]);
 
-    // Check cache first
-    const cached = await getCachedPreprocessed(originalImageBase64, stylePrompt, fullBody);
-    if (cached) {
-      imageToUse = cached;
-      setPreviewUrl(`data:image/png;base64,${cached}`);
-      toast.loading("Using cached character!", { id: toastId });
-    } else {
-      // Step 1: Preprocess with Nano Banana
+  // Resume a generation job that was still running when the tab was reloaded
+  useEffect(() => {
+    const jobId = getActiveJobId();
+    if (!jobId) return;
+
+    const resume = async () => {
       try {
-        const preprocessResponse = await fetch("/api/preprocess", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            imageBase64: originalImageBase64,
-            fullBody,
-            stylePrompt: stylePrompt.trim() || undefined,
-          }),
-        });
+        const jobResponse = await fetch(`/api/jobs/${jobId}`);
+        if (!jobResponse.ok) {
+          clearActiveJobId();
+          return;
+        }
 
-        if (preprocessResponse.ok) {
-          const preprocessData = await preprocessResponse.json();
-          imageToUse = preprocessData.imageBase64;
-          setPreviewUrl(`data:image/png;base64,${imageToUse}`);
+        const job: JobSummary = await jobResponse.json();
+        if (job.kind === "preprocess" || job.kind === "inpaint" || !job.sourcePath) {
+          clearActiveJobId();
+          return;
+        }
 
-          // Cache the result
-          await cachePreprocessed(originalImageBase64, stylePrompt, fullBody, imageToUse);
+        const sourceResponse = await fetch(job.sourcePath);
+        if (!sourceResponse.ok) {
+          clearActiveJobId();
+          return;
+        }
+        const { imageBase64: source }: JobSourceResponse = await sourceResponse.json();
+        const isModel = job.kind === "model";
+        setOriginalImageBase64(source);
+        setProcessedImageBase64(source);
+        setProcessedAlphaBase64(null);
+        setPreviewUrl(`data:image/png;base64,${source}`);
+        setGenerationMode(isModel ? "3d-model" : "cursor");
+        setStatus(isModel ? "generating3d" : "generating");
 
-          toast.loading("Character ready!", { id: toastId });
-        } else {
-          const errorData = await preprocessResponse.json();
-          throw new Error(errorData.error || "Preprocessing failed");
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const toastId = toast.loading("Resuming generation...");
+        try {
+          const response = await fetch(`/api/jobs/${jobId}/stream`, { signal: controller.signal });
+          if (!response.ok) throw new Error("Generation job expired");
+          const options = {
+            response,
+            toastId,
+            source: { originalImageBase64: source, processedImageBase64: source },
+            signal: controller.signal,
+          };
+          await (isModel ? streamModel(options) : streamFrames(options));
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          clearActiveJobId();
+          setModelProgress(null);
+          setStatus("error");
+          const message = err instanceof Error ? err.message : "An error occurred";
+          toast.error("Generation failed", { id: toastId, description: message });
         }
+      } catch {
+        // Server unreachable; keep the job id for the next load
+      }
+    };
+
+    resume();
+  }, [streamFrames, streamModel]);
+
+  // Step 2: generate from the prepared image; also runs once a candidate is picked
+  const generateFromImage = useCallback(async ({
+    original,
+    imageToUse,
+    rejectedCandidates,
+    adjustments,
+    uneditedImageBase64,
+    toastId,
+    signal,
+  }: {
+    original: string;
+    imageToUse: string;
+    rejectedCandidates?: string[];
+    adjustments?: ImageAdjustments; // Set once the adjust step has run
+    uneditedImageBase64?: string;
+    toastId: string | number;
+    signal: AbortSignal;
+  }) => {
+    setProcessedImageBase64(imageToUse);
+
+    // Pause so the prepared image can be straightened or cropped first
+    if (adjustBeforeGenerate && !adjustments) {
+      setPendingAdjust({ original, imageToUse, rejectedCandidates });
+      setStatus("idle");
+      toast.success("Character ready", {
+        id: toastId,
+        description: "Adjust it, then Continue to generate",
+      });
+      return;
+    }
+    const savedAdjustments =
+      adjustments && !isDefaultAdjustments(adjustments) ? adjustments : undefined;
+
+    // Matted PNG copy for display and export; generation keeps the black background it expects
+    let alphaToUse: string | undefined;
+    if (transparentBackground && generationMode === "cursor") {
+      toast.loading("Removing background...", { id: toastId });
+      try {
+        alphaToUse = await removeBackground(imageToUse);
       } catch (err) {
-        console.error("Preprocessing error:", err);
-        setStatus("error");
-        toast.error("Failed to create character", {
-          id: toastId,
-          description: err instanceof Error ? err.message : "Unknown error"
-        });
-        return;
+        console.error("Background removal failed:", err);
+        toast.error("Background removal failed, keeping black backgrounds");
       }
+      if (signal.aborted) return;
     }
+    setProcessedAlphaBase64(alphaToUse ?? null);
+    const frameMimeType = alphaToUse ? frameFormat : undefined;
 
-    // Step 2: Generate based on mode
     if (generationMode === "3d-model") {
-      setStatus("generating3d");
-      toast.loading("Generating 3D model... (this may take 1-2 min)", { id: toastId });
+      let modelViews: ModelView[] | undefined;
 
-      try {
-        const response = await fetch("/api/generate-3d", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            imageBase64: imageToUse,
-            textureSize,
-            meshQuality,
-          }),
-        });
+      if (multiView) {
+        // Generated views of a previous front image no longer match; uploads are kept
+        const currentViews =
+          imageToUse === processedImageBase64
+            ? views
+            : views.filter((view) => view.source === "uploaded");
+        const missing = MODEL_VIEW_ANGLES.filter(
+          (angle) => !currentViews.some((view) => view.angle === angle)
+        );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "3D generation failed");
+        // Pause after generating views so they can be reviewed before the 3D run
+        if (missing.length > 0) {
+          toast.loading(`Generating ${missing.join(" and ")} views...`, { id: toastId });
+          setPendingViewAngles(missing);
+          try {
+            const generated = await Promise.all(
+              missing.map((angle) => requestView(imageToUse, angle, viewStyleId, signal))
+            );
+            setViews([...currentViews, ...generated]);
+            setStatus("idle");
+            toast.success("Views ready", {
+              id: toastId,
+              description: "Review them, then Generate again to build the 3D model",
+            });
+          } catch (err) {
+            if (signal.aborted) return;
+            setViews(currentViews);
+            setStatus("error");
+            toast.error("Failed to generate views", {
+              id: toastId,
+              description: err instanceof Error ? err.message : "Unknown error",
+            });
+          } finally {
+            setPendingViewAngles([]);
+          }
+          return;
         }
 
-        const data = await response.json();
-        setGlbBase64(data.glbBase64);
+        modelViews = currentViews;
+      }
+
+      await runModelGeneration({
+        toastId,
+        source: {
+          originalImageBase64: original,
+          processedImageBase64: imageToUse,
+          stylePrompt: stylePrompt.trim() || undefined,
+          promptAttributes: activeAttributes,
+          parentId: restyleParent?.id,
+          restyleSource: restyleParent?.source,
+          imageAdjustments: savedAdjustments,
+          uneditedImageBase64,
+          styleId,
+          preprocessMode,
+          views: modelViews,
+          processedAlphaBase64: alphaToUse,
+          rejectedCandidates,
+        },
+        params: {
+          textureSize,
+          meshQuality,
+          seed: seedInput.trim() ? Number(seedInput) : undefined,
+          sampling: modelSampling,
+        },
+        signal,
+      });
+    } else if (generationMode === "parallax") {
+      // Depth is estimated in the browser, so this step costs nothing
+      setStatus("generating");
+      toast.loading("Estimating depth...", { id: toastId });
+
+      try {
+        const depthBase64 = await estimateDepth(imageToUse);
+        if (signal.aborted) return;
+
+        setGeneratedImages([
+          { step: PARALLAX_STEP, imageBase64: imageToUse, depthBase64, index: 0 },
+        ]);
         setStatus("complete");
-        toast.success("3D model ready!", { id: toastId });
+        setProgress(100);
+        toast.success("Parallax avatar ready!", { id: toastId });
 
-        // Save to history (IndexedDB can handle large GLB files)
-        await saveRender({
-          mode: "3d-model",
-          originalImageBase64,
+        const saved = await saveRender({
+          mode: "parallax",
+          originalImageBase64: original,
           processedImageBase64: imageToUse,
-          glbBase64: data.glbBase64,
+          depthBase64,
+          parallaxStrength,
           stylePrompt: stylePrompt.trim() || undefined,
+          promptAttributes: activeAttributes,
+          parentId: restyleParent?.id,
+          restyleSource: restyleParent?.source,
+          imageAdjustments: savedAdjustments,
+          uneditedImageBase64,
+          styleId,
+          preprocessMode,
+          rejectedCandidates,
         });
+        setCurrentRenderId(saved.id);
         setHistoryRefresh((n) => n + 1);
       } catch (err) {
+        if (signal.aborted) return;
+        console.error("Depth estimation error:", err);
         setStatus("error");
-        const message = err instanceof Error ? err.message : "An error occurred";
-        toast.error("3D generation failed", { id: toastId, description: message });
+        toast.error("Depth estimation failed", {
+          id: toastId,
+          description: err instanceof Error ? err.message : "Unknown error",
+        });
       }
     } else {
       setStatus("generating");
       toast.loading("Generating frames...", { id: toastId });
 
       try {
-        const response = await fetch("/api/generate/stream", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
+        const response = await startJob(
+          "/api/generate/stream",
+          {
             imageBase64: imageToUse,
             xSteps,
             ySteps,
             prefix: "avatar",
-          }),
-        });
+            order: frameOrder,
+            expressions: expressionLayers,
+            angles: gridAngles,
+            gridType,
+            eyeXSteps,
+            eyeYSteps,
+            layout: layoutKind,
+            rings,
+            directions,
+            visemes: generationMode === "talking",
+          },
+          signal
+        );
 
         if (!response.ok) {
           throw new Error("Generation failed");
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("No response stream");
+        await streamFrames({
+          response,
+          toastId,
+          source: {
+            originalImageBase64: original,
+            processedImageBase64: imageToUse,
+            stylePrompt: stylePrompt.trim() || undefined,
+            promptAttributes: activeAttributes,
+            parentId: restyleParent?.id,
+            restyleSource: restyleParent?.source,
+            imageAdjustments: savedAdjustments,
+            uneditedImageBase64,
+            styleId,
+            preprocessMode,
+            frameMimeType,
+            expressionTrigger,
+            processedAlphaBase64: alphaToUse,
+            rejectedCandidates,
+          },
+          signal,
+        });
+      } catch (err) {
+        if (signal.aborted) return;
+        clearActiveJobId();
+        setStatus("error");
+        const message = err instanceof Error ? err.message : "An error occurred";
+        toast.error("Generation failed", { id: toastId, description: message });
+      }
+    }
+  }, [xSteps, ySteps, frameOrder, expressionLayers, expressionTrigger, gridAngles, gridType, eyeXSteps, eyeYSteps, layoutKind, rings, directions, transparentBackground, frameFormat, parallaxStrength, generationMode, meshQuality, textureSize, seedInput, modelSampling, multiView, views, processedImageBase64, stylePrompt, activeAttributes, restyleParent, adjustBeforeGenerate, styleId, preprocessMode, viewStyleId, streamFrames, runModelGeneration]);
+
+  const handleGenerate = useCallback(async () => {
+    if (!originalImageBase64) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setStatus("preprocessing");
+    setProgress(0);
+    setGeneratedImages([]);
+    setGlbBase64(null);
+    setCurrentRenderId(null);
+    setCandidates(null);
+    setPendingAdjust(null);
+
+    const fullBody = generationMode === "3d-model";
+    const toastId = toast.loading(
+      preprocessMode === "passthrough"
+        ? "Using original photo..."
+        : preprocessMode === "cleanup"
+          ? "Cleaning up photo..."
+          : `Creating ${styleName} character...`
+    );
 
-        const decoder = new TextDecoder();
-        const images: GeneratedImage[] = [];
-        let buffer = "";
+    let imageToUse = originalImageBase64;
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+    // Step 1: Preprocess with Nano Banana, unless the original photo is used as-is
+    if (preprocessMode !== "passthrough") {
+      const cacheOptions = {
+        mode: preprocessMode,
+        styleId,
+        stylePrompt,
+        attributes: activeAttributes ?? {},
+        fullBody,
+      };
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n\n");
-          buffer = lines.pop() || "";
+      // Check cache first; asking for several candidates always fetches fresh ones
+      const cached =
+        candidateCount > 1 ? null : await getCachedPreprocessed(originalImageBase64, cacheOptions);
+      if (cached) {
+        imageToUse = cached;
+        setPreviewUrl(`data:image/png;base64,${cached}`);
+        toast.loading("Using cached character!", { id: toastId });
+      } else {
+        try {
+          const preprocessData = await requestImageJob<PreprocessResponse>(
+            "/api/preprocess",
+            {
+              imageBase64: originalImageBase64,
+              fullBody,
+              stylePrompt: stylePrompt.trim() || undefined,
+              attributes: activeAttributes,
+              styleId,
+              mode: preprocessMode,
+              candidates: candidateCount,
+            },
+            "Preprocessing failed",
+            signal
+          );
 
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
+          const failedCandidates = candidateCount - preprocessData.candidates.length;
+          if (failedCandidates > 0) {
+            toast.warning(`${failedCandidates} of ${candidateCount} characters failed`, {
+              description: "Continuing with the ones that came back",
+            });
+          }
 
-            try {
-              const data = JSON.parse(line.slice(6)) as StreamEvent;
-
-              if (data.type === "progress") {
-                const pct = (data.completed / data.total) * 100;
-                setProgress(pct);
-                images.push({
-                  step: data.step,
-                  imageBase64: data.imageBase64,
-                  index: data.index,
-                });
-                setGeneratedImages([...images]);
-                toast.loading(`Generating... ${Math.round(pct)}%`, { id: toastId });
-              } else if (data.type === "complete") {
-                setStatus("complete");
-                setProgress(100);
-                toast.success(`${images.length} frames generated`, { id: toastId });
-
-                // Save to history with all frames sorted by index (IndexedDB can handle it)
-                const sortedImages = [...images].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
-                await saveRender({
-                  mode: "cursor",
-                  originalImageBase64,
-                  processedImageBase64: imageToUse,
-                  generatedFrames: sortedImages.map((img) => img.imageBase64),
-                  frameCount: sortedImages.length,
-                  xSteps,
-                  ySteps,
-                  stylePrompt: stylePrompt.trim() || undefined,
-                });
-                setHistoryRefresh((n) => n + 1);
-              } else if (data.type === "error") {
-                throw new Error(data.error);
-              }
-            } catch {
-              // Skip invalid JSON
-            }
+          // Pause the pipeline until a candidate is picked
+          if (preprocessData.candidates.length > 1) {
+            setCandidates({ images: preprocessData.candidates, cacheOptions });
+            setStatus("idle");
+            toast.success(`${preprocessData.candidates.length} characters ready`, {
+              id: toastId,
+              description: "Pick one to continue, or Generate again for new options",
+            });
+            return;
           }
+
+          imageToUse = preprocessData.imageBase64;
+          setPreviewUrl(`data:image/png;base64,${imageToUse}`);
+
+          // Cache the result
+          await cachePreprocessed(originalImageBase64, cacheOptions, imageToUse);
+
+          toast.loading("Character ready!", { id: toastId });
+        } catch (err) {
+          if (signal.aborted) return;
+          console.error("Preprocessing error:", err);
+          setStatus("error");
+          toast.error("Failed to create character", {
+            id: toastId,
+            description: err instanceof Error ? err.message : "Unknown error"
+          });
+          return;
         }
-      } catch (err) {
-        setStatus("error");
-        const message = err instanceof Error ? err.message : "An error occurred";
-        toast.error("Generation failed", { id: toastId, description: message });
       }
     }
-  }, [originalImageBase64, xSteps, ySteps, generationMode, meshQuality, textureSize, stylePrompt]);
+
+    await generateFromImage({ original: originalImageBase64, imageToUse, toastId, signal });
+  }, [originalImageBase64, generationMode, stylePrompt, activeAttributes, styleId, styleName, preprocessMode, candidateCount, generateFromImage]);
+
+  // Continue the paused pipeline with the adjusted image
+  const handleApplyAdjustments = useCallback(async () => {
+    if (!pendingAdjust) return;
+
+    const { original, imageToUse, rejectedCandidates } = pendingAdjust;
+    setPendingAdjust(null);
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const toastId = toast.loading("Applying adjustments...");
+
+    const unchanged = isDefaultAdjustments(imageAdjustments);
+    let edited = imageToUse;
+    try {
+      edited = unchanged ? imageToUse : await applyAdjustments(imageToUse, imageAdjustments);
+    } catch (err) {
+      console.error("Failed to apply adjustments:", err);
+      setPendingAdjust(pendingAdjust);
+      toast.error("Failed to apply adjustments", { id: toastId });
+      return;
+    }
+    setPreviewUrl(`data:image/png;base64,${edited}`);
+
+    await generateFromImage({
+      original,
+      imageToUse: edited,
+      rejectedCandidates,
+      adjustments: imageAdjustments,
+      uneditedImageBase64: unchanged ? undefined : imageToUse,
+      toastId,
+      signal: controller.signal,
+    });
+  }, [pendingAdjust, imageAdjustments, generateFromImage]);
+
+  // Repaint the masked area of the paused character, then keep adjusting it
+  const handleInpaint = useCallback(async (maskBase64: string, prompt: string) => {
+    if (!pendingAdjust) return;
+
+    const source = pendingAdjust.imageToUse;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsInpainting(true);
+    const toastId = toast.loading("Touching up character...");
+
+    try {
+      let touchedUp = await getCachedInpainted(source, maskBase64, prompt);
+      if (!touchedUp) {
+        const data = await requestImageJob<InpaintResponse>(
+          "/api/inpaint",
+          { imageBase64: source, maskBase64, prompt },
+          "Touch-up failed",
+          controller.signal
+        );
+        touchedUp = data.imageBase64;
+        await cacheInpainted(source, maskBase64, prompt, touchedUp);
+      }
+
+      setPendingAdjust({ ...pendingAdjust, imageToUse: touchedUp, touchingUp: false });
+      setProcessedImageBase64(touchedUp);
+      setPreviewUrl(`data:image/png;base64,${touchedUp}`);
+      toast.success("Character touched up", { id: toastId });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Touch-up error:", err);
+      toast.error("Failed to touch up character", {
+        id: toastId,
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setIsInpainting(false);
+    }
+  }, [pendingAdjust]);
+
+  // Continue the paused pipeline with the picked candidate
+  const handleChooseCandidate = useCallback(async (index: number) => {
+    if (!originalImageBase64 || !candidates) return;
+
+    const chosen = candidates.images[index];
+    const rejected = candidates.images.filter((_, i) => i !== index);
+    setCandidates(null);
+    setPreviewUrl(`data:image/png;base64,${chosen}`);
+    await cachePreprocessed(originalImageBase64, candidates.cacheOptions, chosen);
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const toastId = toast.loading("Character chosen!");
+    await generateFromImage({
+      original: originalImageBase64,
+      imageToUse: chosen,
+      rejectedCandidates: keepRejectedCandidates ? rejected : undefined,
+      toastId,
+      signal: controller.signal,
+    });
+  }, [originalImageBase64, candidates, keepRejectedCandidates, generateFromImage]);
+
+  // Re-run a saved 3D render with its seed and sampling parameters, skipping preprocessing
+  const handleRegenerateRender = useCallback(async (render: SavedRender) => {
+    if (render.seed === undefined) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setOriginalImageBase64(render.originalImageBase64);
+    setProcessedImageBase64(render.processedImageBase64);
+    setProcessedAlphaBase64(render.processedAlphaBase64 ?? null);
+    setRestyleParent(null);
+    setPreviewUrl(`data:image/png;base64,${render.processedImageBase64}`);
+    setStylePrompt(render.stylePrompt || "");
+    setPromptAttributes(render.promptAttributes ?? {});
+    setStyleId(render.styleId ?? DEFAULTS.STYLE_ID);
+    setPreprocessMode(render.preprocessMode ?? DEFAULTS.PREPROCESS_MODE);
+    setGenerationMode("3d-model");
+    setGeneratedImages([]);
+    setGlbBase64(null);
+    setCurrentRenderId(null);
+    applyModelParams(render);
+    setSeedInput(String(render.seed));
+
+    const toastId = toast.loading(`Regenerating with seed ${render.seed}...`);
+    await runModelGeneration({
+      toastId,
+      source: {
+        originalImageBase64: render.originalImageBase64,
+        processedImageBase64: render.processedImageBase64,
+        stylePrompt: render.stylePrompt,
+        promptAttributes: render.promptAttributes,
+        imageAdjustments: render.imageAdjustments,
+        uneditedImageBase64: render.uneditedImageBase64,
+        styleId: render.styleId,
+        preprocessMode: render.preprocessMode,
+        views: render.views,
+        processedAlphaBase64: render.processedAlphaBase64,
+      },
+      params: {
+        textureSize: render.textureSize,
+        meshQuality: render.meshQuality,
+        seed: render.seed,
+        sampling: render.modelSampling,
+      },
+      signal: controller.signal,
+    });
+  }, [applyModelParams, runModelGeneration]);
+
+  // Bring a saved render's photo and style back for editing; Generate re-runs it as a new version
+  const handleEditRender = useCallback((render: SavedRender) => {
+    setOriginalImageBase64(render.originalImageBase64);
+    setPreviewUrl(`data:image/png;base64,${render.originalImageBase64}`);
+    setProcessedImageBase64(null);
+    setProcessedAlphaBase64(null);
+    setCandidates(null);
+    setRestyleParent({ id: render.id, source: "original" });
+    setPendingAdjust(null);
+    setImageAdjustments(render.imageAdjustments ?? DEFAULT_ADJUSTMENTS);
+    if (render.imageAdjustments) setAdjustBeforeGenerate(true);
+    setCurrentRenderId(null);
+    setGeneratedImages([]);
+    setGlbBase64(null);
+    setGenerationMode(render.mode);
+    setStyleId(render.styleId ?? DEFAULTS.STYLE_ID);
+    setPreprocessMode("stylize");
+    setStylePrompt(render.stylePrompt || "");
+    setPromptAttributes(render.promptAttributes ?? {});
+    if (render.xSteps && render.ySteps) {
+      setXSteps(render.xSteps);
+      setYSteps(render.ySteps);
+      setGridAngles(render.gridAngles ?? DEFAULT_GRID_ANGLES);
+      applyGridOptions(render);
+    }
+    applyModelParams(render);
+    setStatus("idle");
+    setProgress(0);
+    setShowStyleModal(true);
+  }, [applyModelParams, applyGridOptions]);
+
+  // Start a restyle of a saved render from its character or its original photo
+  const handleRestyleRender = useCallback((render: SavedRender, source: RestyleSource) => {
+    const input = source === "processed" ? render.processedImageBase64 : render.originalImageBase64;
+    setOriginalImageBase64(input);
+    setPreviewUrl(`data:image/png;base64,${input}`);
+    setProcessedImageBase64(null);
+    setProcessedAlphaBase64(null);
+    setCandidates(null);
+    setCurrentRenderId(null);
+    setGeneratedImages([]);
+    setGlbBase64(null);
+    setViews([]);
+    setGenerationMode(render.mode);
+    setPreprocessMode("stylize");
+    setRestyleParent({ id: render.id, source });
+    setStatus("idle");
+    setProgress(0);
+    setShowStyleModal(true);
+    toast.info("Pick a new style, then Generate", {
+      description: source === "processed" ? "Restyling the character" : "Restyling the original photo",
+    });
+  }, []);
+
+  // Generate or replace a single extra view from the current stylized front
+  const handleGenerateView = useCallback(async (angle: ViewAngle) => {
+    if (!processedImageBase64) return;
+
+    setPendingViewAngles((prev) => [...prev, angle]);
+    try {
+      const view = await requestView(processedImageBase64, angle, viewStyleId);
+      setViews((prev) => [...prev.filter((v) => v.angle !== angle), view]);
+    } catch (err) {
+      toast.error(`Failed to generate ${angle} view`, {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setPendingViewAngles((prev) => prev.filter((a) => a !== angle));
+    }
+  }, [processedImageBase64, viewStyleId]);
+
+  const handleUploadView = useCallback((angle: ViewAngle, imageBase64: string) => {
+    setViews((prev) => [
+      ...prev.filter((view) => view.angle !== angle),
+      { angle, imageBase64, source: "uploaded" },
+    ]);
+  }, []);
+
+  const handleRemoveView = useCallback((angle: ViewAngle) => {
+    setViews((prev) => prev.filter((view) => view.angle !== angle));
+  }, []);
+
+  // Generate some frames of the current grid, merging them into the current render
+  const generateIntoRender = useCallback(async ({
+    indices,
+    nextRefinements,
+    loadingMessage,
+    errorMessage,
+  }: {
+    indices: number[];
+    nextRefinements: FramePair[];
+    loadingMessage: string;
+    errorMessage: string;
+  }) => {
+    if (!processedImageBase64) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setStatus("generating");
+    setProgress(0);
+    const toastId = toast.loading(loadingMessage);
+
+    try {
+      const response = await startJob(
+        "/api/generate/stream",
+        {
+          imageBase64: processedImageBase64,
+          // The grid the frames were generated for, not the settings as edited since
+          ...(frameGrid ? frameGridOptions(frameGrid) : {}),
+          prefix: "avatar",
+          indices,
+          order: frameOrder,
+          refinements: nextRefinements,
+          visemes: generationMode === "talking",
+        },
+        signal
+      );
+
+      if (!response.ok) {
+        throw new Error("Generation failed");
+      }
+
+      await streamFrames({
+        response,
+        toastId,
+        source: {
+          originalImageBase64: originalImageBase64 ?? processedImageBase64,
+          processedImageBase64,
+          stylePrompt: stylePrompt.trim() || undefined,
+          promptAttributes: activeAttributes,
+          styleId,
+          preprocessMode,
+          // New frames match the ones already in the grid
+          frameMimeType: generatedImages.find((img) => img.mimeType)?.mimeType,
+          expressionTrigger,
+          processedAlphaBase64: processedAlphaBase64 ?? undefined,
+        },
+        signal,
+        baseImages: generatedImages,
+        renderId: currentRenderId,
+      });
+    } catch (err) {
+      if (signal.aborted) return;
+      clearActiveJobId();
+      setStatus("complete");
+      const message = err instanceof Error ? err.message : "An error occurred";
+      toast.error(errorMessage, { id: toastId, description: message });
+    }
+  }, [processedImageBase64, processedAlphaBase64, originalImageBase64, generationMode, frameGrid, frameOrder, expressionTrigger, stylePrompt, activeAttributes, styleId, preprocessMode, generatedImages, currentRenderId, streamFrames]);
+
+  // Regenerate only the grid cells that failed
+  const handleRetryMissing = useCallback(() => {
+    if (missingIndices.length === 0) return;
+    generateIntoRender({
+      indices: missingIndices,
+      nextRefinements: refinements,
+      loadingMessage: `Retrying ${missingIndices.length} frames...`,
+      errorMessage: "Retry failed",
+    });
+  }, [missingIndices, refinements, generateIntoRender]);
+
+  // Add an in-between frame wherever neighbouring frames differ a lot
+  const handleRefine = useCallback(async () => {
+    let pairs: FramePair[];
+    try {
+      pairs = await findRefinementPairs(generatedImages, renderLayout, refinements, baseFrameCount);
+    } catch (err) {
+      console.error("Frame comparison failed:", err);
+      toast.error("Could not compare frames");
+      return;
+    }
+
+    if (pairs.length === 0) {
+      toast.info("No large jumps between neighbouring frames");
+      return;
+    }
+
+    const first = baseFrameCount + refinements.length;
+    generateIntoRender({
+      indices: pairs.map((_, k) => first + k),
+      nextRefinements: [...refinements, ...pairs],
+      loadingMessage: `Refining ${pairs.length} frame jumps...`,
+      errorMessage: "Refinement failed",
+    });
+  }, [generatedImages, renderLayout, refinements, baseFrameCount, generateIntoRender]);
+
+  // Double the grid density locally by synthesizing the frames between neighbours
+  const handleUpsample = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    const renderId = currentRenderId;
+
+    setIsUpsampling(true);
+    const toastId = toast.loading("Synthesizing frames...");
+    try {
+      const frames = await upsampleFrames(
+        generatedImages,
+        renderLayout,
+        renderExpressions.length + 1,
+        (done, total) => toast.loading(`Synthesizing frames... ${done}/${total}`, { id: toastId }),
+        signal
+      );
+      if (currentRenderIdRef.current !== renderId) {
+        // Another render was opened meanwhile; these frames belong to the old one
+        toast.dismiss(toastId);
+        return;
+      }
+      setGeneratedImages(frames);
+      setUpsampled(true);
+      toast.success(`${frames.filter((img) => img.synthesized).length} frames synthesized`, {
+        id: toastId,
+      });
+
+      if (renderId) {
+        await updateRender(renderId, {
+          generatedFrames: frames.map((img) => img.imageBase64),
+          frameIndices: frames.map((img, i) => img.index ?? i),
+          frameCount: frames.length,
+          upsampled: true,
+          synthesizedIndices: frames.flatMap((img, i) => (img.synthesized ? [img.index ?? i] : [])),
+        });
+        setHistoryRefresh((n) => n + 1);
+      }
+    } catch (err) {
+      if (signal.aborted) {
+        toast.info("Upsampling cancelled", { id: toastId });
+        return;
+      }
+      console.error("Upsampling failed:", err);
+      const message = err instanceof Error ? err.message : "An error occurred";
+      toast.error("Upsampling failed", { id: toastId, description: message });
+    } finally {
+      setIsUpsampling(false);
+    }
+  }, [generatedImages, renderLayout, renderExpressions, currentRenderId]);
+
+  // Abort requests and cancel the server-side job so no further predictions start
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    // Upsampling runs in the browser and reports its own cancellation
+    if (isUpsampling) return;
+
+    const jobId = getActiveJobId();
+    if (jobId) {
+      fetch(`/api/jobs/${jobId}`, { method: "DELETE", keepalive: true }).catch(console.error);
+      clearActiveJobId();
+    }
+
+    toast.dismiss();
+    toast.info("Generation cancelled");
+    setStatus("idle");
+    setProgress(0);
+    setModelProgress(null);
+  }, [isUpsampling]);
 
   const isPreprocessing = status === "preprocessing";
   const isGenerating = status === "generating";
   const isGenerating3D = status === "generating3d";
-  const isBusy = isPreprocessing || isGenerating || isGenerating3D;
+  const isBusy = isPreprocessing || isGenerating || isGenerating3D || isUpsampling;
 
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -302,6 +1757,26 @@ export default function Home() {
                 <MousePointer2 className="h-4 w-4" />
                 Cursor Tracking
               </Button>
+              <Button
+                variant={generationMode === "parallax" ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setGenerationMode("parallax")}
+                disabled={isBusy}
+                className="flex-1 gap-2"
+              >
+                <Layers className="h-4 w-4" />
+                Parallax
+              </Button>
+              <Button
+                variant={generationMode === "talking" ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setGenerationMode("talking")}
+                disabled={isBusy}
+                className="flex-1 gap-2"
+              >
+                <AudioLines className="h-4 w-4" />
+                Talking
+              </Button>
               <Button
                 variant={generationMode === "3d-model" ? "default" : "ghost"}
                 size="lg"
@@ -320,48 +1795,453 @@ export default function Home() {
               disabled={isBusy}
             />
 
+            {/* Style Preset */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex gap-1">
+                  {PREPROCESS_MODE_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant={preprocessMode === option.value ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setPreprocessMode(option.value)}
+                      disabled={isBusy}
+                      title={option.description}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                <span className="text-xs text-muted-foreground font-mono">
+                  {preprocessCost > 0 ? `$${preprocessCost.toFixed(3)}` : "free"}
+                </span>
+              </div>
+              <StylePicker
+                presets={stylePresets}
+                value={styleId}
+                onChange={setStyleId}
+                disabled={isBusy || preprocessMode !== "stylize"}
+              />
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Candidates</span>
+                <div className="flex gap-1">
+                  {Array.from({ length: MAX_PREPROCESS_CANDIDATES }, (_, i) => i + 1).map((count) => (
+                    <Button
+                      key={count}
+                      variant={candidateCount === count ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-6 w-6 p-0 text-xs"
+                      onClick={() => setCandidateCount(count)}
+                      disabled={isBusy || preprocessMode === "passthrough"}
+                      title={count > 1 ? `Generate ${count} characters and pick one` : "Use the first result"}
+                    >
+                      {count}
+                    </Button>
+                  ))}
+                  <Button
+                    variant={keepRejectedCandidates ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setKeepRejectedCandidates(!keepRejectedCandidates)}
+                    disabled={isBusy || preprocessMode === "passthrough" || candidateCount === 1}
+                    title="Save the candidates you did not pick with the render in history"
+                  >
+                    Keep rejected
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Adjust before generating</span>
+                <Button
+                  variant={adjustBeforeGenerate ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setAdjustBeforeGenerate(!adjustBeforeGenerate)}
+                  disabled={isBusy}
+                  title="Pause after preparing the character to crop, rotate or tone it"
+                >
+                  {adjustBeforeGenerate ? "On" : "Off"}
+                </Button>
+              </div>
+            </div>
+
             {/* Mode-specific Settings - Same height for both */}
             <Card className="p-4 min-h-[200px]">
               <div className="space-y-6">
                 <p className="text-sm font-medium">
-                  {generationMode === "cursor" ? "Frame Settings" : "3D Model Settings"}
+                  {generationMode === "cursor"
+                    ? "Frame Settings"
+                    : generationMode === "parallax"
+                      ? "Parallax Settings"
+                      : generationMode === "talking"
+                        ? "Lip-sync Settings"
+                        : "3D Model Settings"}
                 </p>
 
                 {generationMode === "cursor" ? (
                   <>
-                    <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Follow with</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant={gridType === "head" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => {
+                            setGridType("head");
+                            setXSteps(Math.max(xSteps, DEFAULTS.X_STEPS));
+                            setYSteps(Math.max(ySteps, DEFAULTS.Y_STEPS));
+                          }}
+                          disabled={isBusy}
+                          title="Turn the whole head towards the cursor"
+                        >
+                          Head
+                        </Button>
+                        <Button
+                          variant={gridType === "eyes" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => {
+                            // Start with a still head; a small head grid can be added back
+                            setGridType("eyes");
+                            setXSteps(1);
+                            setYSteps(1);
+                          }}
+                          disabled={isBusy}
+                          title="Keep the head nearly still while the eyes follow the cursor"
+                        >
+                          Eyes
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Layout</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant={layoutKind === "grid" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setLayoutKind("grid")}
+                          disabled={isBusy}
+                          title="Rows and columns of frames"
+                        >
+                          Grid
+                        </Button>
+                        <Button
+                          variant={layoutKind === "polar" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setLayoutKind("polar")}
+                          disabled={isBusy}
+                          title="A centre frame plus rings of directions, skipping the corners"
+                        >
+                          Polar
+                        </Button>
+                      </div>
+                    </div>
+
+                    {layoutKind === "grid" ? (
+                      <>
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-muted-foreground">
+                              {gridType === "eyes" ? "Head horizontal" : "Horizontal"}
+                            </span>
+                            <Badge variant="secondary" className="font-mono text-xs">{xSteps}</Badge>
+                          </div>
+                          <Slider
+                            value={[xSteps]}
+                            onValueChange={([value]) => setXSteps(value)}
+                            min={gridType === "eyes" ? 1 : 3}
+                            max={10}
+                            step={1}
+                            disabled={isBusy}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-muted-foreground">
+                              {gridType === "eyes" ? "Head vertical" : "Vertical"}
+                            </span>
+                            <Badge variant="secondary" className="font-mono text-xs">{ySteps}</Badge>
+                          </div>
+                          <Slider
+                            value={[ySteps]}
+                            onValueChange={([value]) => setYSteps(value)}
+                            min={gridType === "eyes" ? 1 : 3}
+                            max={10}
+                            step={1}
+                            disabled={isBusy}
+                          />
+                        </div>
+
+                        {gridType === "eyes" && (
+                          <>
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground">Eyes horizontal</span>
+                                <Badge variant="secondary" className="font-mono text-xs">{eyeXSteps}</Badge>
+                              </div>
+                              <Slider
+                                value={[eyeXSteps]}
+                                onValueChange={([value]) => setEyeXSteps(value)}
+                                min={1}
+                                max={MAX_EYE_STEPS}
+                                step={1}
+                                disabled={isBusy}
+                              />
+                            </div>
+
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground">Eyes vertical</span>
+                                <Badge variant="secondary" className="font-mono text-xs">{eyeYSteps}</Badge>
+                              </div>
+                              <Slider
+                                value={[eyeYSteps]}
+                                onValueChange={([value]) => setEyeYSteps(value)}
+                                min={1}
+                                max={MAX_EYE_STEPS}
+                                step={1}
+                                disabled={isBusy}
+                              />
+                            </div>
+                          </>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-muted-foreground">Rings</span>
+                            <Badge variant="secondary" className="font-mono text-xs">{rings}</Badge>
+                          </div>
+                          <Slider
+                            value={[rings]}
+                            onValueChange={([value]) => setRings(value)}
+                            min={1}
+                            max={POLAR_LIMITS.MAX_RINGS}
+                            step={1}
+                            disabled={isBusy}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-muted-foreground">Directions per ring</span>
+                            <Badge variant="secondary" className="font-mono text-xs">{directions}</Badge>
+                          </div>
+                          <Slider
+                            value={[directions]}
+                            onValueChange={([value]) => setDirections(value)}
+                            min={POLAR_LIMITS.MIN_DIRECTIONS}
+                            max={POLAR_LIMITS.MAX_DIRECTIONS}
+                            step={1}
+                            disabled={isBusy}
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Order</span>
+                      <div className="flex gap-1">
+                        {FRAME_ORDER_OPTIONS.map((option) => (
+                          <Button
+                            key={option.value}
+                            variant={frameOrder === option.value ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setFrameOrder(option.value)}
+                            disabled={isBusy}
+                            title={option.description}
+                          >
+                            {option.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Expressions</span>
+                      <div className="flex gap-1">
+                        {EXPRESSION_LAYER_IDS.map((id) => {
+                          const selected = expressionLayers.includes(id);
+                          return (
+                            <Button
+                              key={id}
+                              variant={selected ? "secondary" : "ghost"}
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() =>
+                                setExpressionLayers(
+                                  selected
+                                    ? expressionLayers.filter((layer) => layer !== id)
+                                    : [...expressionLayers, id]
+                                )
+                              }
+                              disabled={isBusy}
+                              title={`${EXPRESSION_LAYERS[id].description} (one extra frame per cell)`}
+                            >
+                              {EXPRESSION_LAYERS[id].label}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    {expressionLayers.some((id) => id !== "blink") && (
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-muted-foreground">Horizontal</span>
-                        <Badge variant="secondary" className="font-mono text-xs">{xSteps}</Badge>
+                        <span className="text-muted-foreground">Switch expression on</span>
+                        <div className="flex gap-1">
+                          {(["click", "hover"] as const).map((trigger) => (
+                            <Button
+                              key={trigger}
+                              variant={expressionTrigger === trigger ? "secondary" : "ghost"}
+                              size="sm"
+                              className="h-6 px-2 text-xs capitalize"
+                              onClick={() => {
+                                setExpressionTrigger(trigger);
+                                // A viewer setting, so finished renders pick it up too
+                                if (currentRenderId && status === "complete") {
+                                  updateRender(currentRenderId, { expressionTrigger: trigger });
+                                }
+                              }}
+                            >
+                              {trigger}
+                            </Button>
+                          ))}
+                        </div>
                       </div>
-                      <Slider
-                        value={[xSteps]}
-                        onValueChange={([value]) => setXSteps(value)}
-                        min={3}
-                        max={10}
-                        step={1}
-                        disabled={isBusy}
-                      />
+                    )}
+
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Background</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant={transparentBackground ? "ghost" : "secondary"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setTransparentBackground(false)}
+                          disabled={isBusy}
+                        >
+                          Black
+                        </Button>
+                        <Button
+                          variant={transparentBackground ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setTransparentBackground(true)}
+                          disabled={isBusy}
+                          title="Remove backgrounds in the browser (downloads a matting model on first use)"
+                        >
+                          Transparent
+                        </Button>
+                        {transparentBackground &&
+                          FRAME_FORMAT_OPTIONS.map((option) => (
+                            <Button
+                              key={option.value}
+                              variant={frameFormat === option.value ? "secondary" : "ghost"}
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => setFrameFormat(option.value)}
+                              disabled={isBusy}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-3">
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                        onClick={() => setShowAdvancedGrid(!showAdvancedGrid)}
+                      >
+                        {showAdvancedGrid ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        Advanced grid
+                      </button>
+
+                      {showAdvancedGrid && (
+                        <GridAnglesEditor
+                          value={gridAngles}
+                          onChange={setGridAngles}
+                          grid={{
+                            xSteps,
+                            ySteps,
+                            gridType,
+                            eyeXSteps,
+                            eyeYSteps,
+                            layout: layoutKind,
+                            rings,
+                            directions,
+                          }}
+                          disabled={isBusy}
+                        />
+                      )}
                     </div>
 
+                    <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+                      <span>{countFrames(frameLayout, expressionLayers)} frames</span>
+                      <span className="font-mono" title="Frames plus image preparation">
+                        ${(estimatedCost + preprocessCost).toFixed(3)}
+                      </span>
+                    </div>
+                  </>
+                ) : generationMode === "talking" ? (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Generates the front-facing head with {VISEME_IDS.length} mouth shapes. Pick a
+                      local audio file in the player and the mouth follows its loudness and vowels,
+                      analysed in your browser.
+                    </p>
+
+                    <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+                      <span>{VISEME_IDS.length} mouth frames</span>
+                      <span className="font-mono" title="Frames plus image preparation">
+                        ${(calculateFrameCost(VISEME_IDS.length) + preprocessCost).toFixed(3)}
+                      </span>
+                    </div>
+                  </>
+                ) : generationMode === "parallax" ? (
+                  <>
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-muted-foreground">Vertical</span>
-                        <Badge variant="secondary" className="font-mono text-xs">{ySteps}</Badge>
+                        <span className="text-muted-foreground">Depth Strength</span>
+                        <Badge variant="secondary" className="font-mono text-xs">
+                          {Math.round(parallaxStrength * 100)}%
+                        </Badge>
                       </div>
                       <Slider
-                        value={[ySteps]}
-                        onValueChange={([value]) => setYSteps(value)}
-                        min={3}
-                        max={10}
-                        step={1}
+                        value={[parallaxStrength]}
+                        onValueChange={([value]) => setParallaxStrength(value)}
+                        onValueCommit={([value]) => {
+                          // Keep the saved render in sync with what is on screen
+                          if (currentRenderId && generatedImages[0]?.depthBase64) {
+                            updateRender(currentRenderId, { parallaxStrength: value });
+                          }
+                        }}
+                        min={PARALLAX_LIMITS.MIN_STRENGTH}
+                        max={PARALLAX_LIMITS.MAX_STRENGTH}
+                        step={0.01}
                         disabled={isBusy}
                       />
                     </div>
 
+                    <p className="text-xs text-muted-foreground">
+                      Estimates a depth map in your browser and tilts the character with the
+                      cursor. The depth model is downloaded on first use.
+                    </p>
+
                     <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
-                      <span>{totalImages} frames</span>
-                      <span className="font-mono">${estimatedCost.toFixed(3)}</span>
+                      <span>1 image + depth map</span>
+                      <span className="font-mono" title="Image preparation only; depth is free">
+                        ${preprocessCost.toFixed(3)}
+                      </span>
                     </div>
                   </>
                 ) : (
@@ -396,8 +2276,135 @@ export default function Home() {
                       />
                     </div>
 
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Views</span>
+                        <div className="flex gap-1">
+                          <Button
+                            variant={multiView ? "ghost" : "secondary"}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setMultiView(false)}
+                            disabled={isBusy}
+                            title="Send only the stylized front image"
+                          >
+                            Front
+                          </Button>
+                          <Button
+                            variant={multiView ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setMultiView(true)}
+                            disabled={isBusy}
+                            title="Add side and back views for better coverage"
+                          >
+                            Multi-view
+                          </Button>
+                        </div>
+                      </div>
+
+                      {multiView && (
+                        <ModelViews
+                          frontImageBase64={processedImageBase64}
+                          views={views}
+                          pendingAngles={pendingViewAngles}
+                          onGenerate={handleGenerateView}
+                          onUpload={handleUploadView}
+                          onRemove={handleRemoveView}
+                          disabled={isBusy}
+                        />
+                      )}
+                    </div>
+
+                    <div className="space-y-3">
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                        onClick={() => setShowAdvanced(!showAdvanced)}
+                      >
+                        {showAdvanced ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        Advanced
+                      </button>
+
+                      {showAdvanced && (
+                        <>
+                          <div className="flex items-center justify-between gap-2 text-sm">
+                            <span className="text-muted-foreground">Seed</span>
+                            <div className="flex items-center gap-1">
+                              <Input
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ""))}
+                                placeholder="Random"
+                                inputMode="numeric"
+                                className="h-7 w-32 font-mono text-xs"
+                                aria-invalid={seedInput !== "" && Number(seedInput) > MODEL_SAMPLING_LIMITS.MAX_SEED}
+                                disabled={isBusy}
+                              />
+                              {lastSeed !== null && seedInput !== String(lastSeed) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => setSeedInput(String(lastSeed))}
+                                  title={`Reuse last seed (${lastSeed})`}
+                                  disabled={isBusy}
+                                >
+                                  <Lock className="h-3 w-3" />
+                                </Button>
+                              )}
+                              {seedInput !== "" && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => setSeedInput("")}
+                                  title="Use a random seed"
+                                  disabled={isBusy}
+                                >
+                                  <Dices className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+
+                          {MODEL_SAMPLING_FIELDS.map((field) => (
+                            <div key={field.key} className="space-y-2">
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground">{field.label}</span>
+                                <Badge variant="secondary" className="font-mono text-xs">
+                                  {modelSampling[field.key]}
+                                </Badge>
+                              </div>
+                              <Slider
+                                value={[modelSampling[field.key]]}
+                                onValueChange={([value]) =>
+                                  setModelSampling((prev) => ({ ...prev, [field.key]: value }))
+                                }
+                                min={field.min}
+                                max={field.max}
+                                step={field.step}
+                                disabled={isBusy}
+                              />
+                            </div>
+                          ))}
+
+                          <div className="flex justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => setModelSampling(DEFAULT_MODEL_SAMPLING)}
+                              disabled={isBusy}
+                            >
+                              Reset to defaults
+                            </Button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+
                     <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
-                      <span>GLB output</span>
+                      <span>GLB output{lastSeed !== null && ` · seed ${lastSeed}`}</span>
                       <span>~1-2 min</span>
                     </div>
                   </>
@@ -405,18 +2412,30 @@ export default function Home() {
               </div>
             </Card>
 
-            {/* Generate Button with Style Option */}
+            {/* Generate Button with Style Option (Cancel while busy) */}
             <div className="relative flex gap-2">
-              <Button
-                variant="outline"
-                size="icon"
-                className="h-12 w-12 shrink-0"
-                onClick={() => setShowStyleModal(true)}
-                disabled={isBusy}
-                title="Customize style"
-              >
-                <Pencil className="h-4 w-4" />
-              </Button>
+              {isBusy ? (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-12 w-12 shrink-0 hover:text-destructive"
+                  onClick={handleCancel}
+                  title="Cancel generation"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-12 w-12 shrink-0"
+                  onClick={() => setShowStyleModal(true)}
+                  title="Customize style"
+                  disabled={preprocessMode !== "stylize"}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 className="flex-1 h-12 text-base"
                 onClick={handleGenerate}
@@ -430,12 +2449,12 @@ export default function Home() {
                 ) : isGenerating ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Generating Frames
+                    {generationMode === "parallax" ? "Estimating Depth" : "Generating Frames"}
                   </>
                 ) : isPreprocessing ? (
                   <>
                     <Wand2 className="mr-2 h-4 w-4 animate-pulse" />
-                    Creating Character
+                    {preprocessMode === "cleanup" ? "Cleaning Up Photo" : "Creating Character"}
                   </>
                 ) : (
                   <>
@@ -447,6 +2466,9 @@ export default function Home() {
               {isGenerating && (
                 <Progress value={progress} className="h-1 absolute -bottom-2 left-0 right-0" />
               )}
+              {isGenerating3D && modelProgress?.percent !== undefined && (
+                <Progress value={modelProgress.percent} className="h-1 absolute -bottom-2 left-0 right-0" />
+              )}
             </div>
           </div>
 
@@ -460,6 +2482,65 @@ export default function Home() {
                   3D Model Ready
                 </Badge>
               )}
+              {missingIndices.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Badge variant="destructive" className="text-xs">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {missingIndices.length} missing
+                  </Badge>
+                  {processedImageBase64 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRetryMissing}
+                      title={`Regenerate only the missing frames ($${calculateFrameCost(missingIndices.length).toFixed(3)})`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              )}
+              {status === "complete" &&
+                generationMode === "cursor" &&
+                generatedImages.length > 0 &&
+                missingIndices.length === 0 &&
+                !upsampled &&
+                processedImageBase64 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRefine}
+                    disabled={isUpsampling}
+                    title={`Add in-between frames where neighbouring frames jump the most (up to $${calculateFrameCost(REFINE_SETTINGS.MAX_PER_PASS).toFixed(3)})`}
+                  >
+                    <GitCompareArrows className="h-3 w-3 mr-1" />
+                    Refine
+                    {refinements.length > 0 && ` (+${refinements.length})`}
+                  </Button>
+                )}
+              {status === "complete" &&
+                generationMode === "cursor" &&
+                renderLayout.kind === "grid" &&
+                generatedImages.length > 0 &&
+                missingIndices.length === 0 &&
+                refinements.length === 0 &&
+                !upsampled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleUpsample}
+                    disabled={isUpsampling}
+                    title="Synthesize a frame between every pair of neighbouring frames, in the browser at no cost"
+                  >
+                    {isUpsampling ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Grid2x2Plus className="h-3 w-3 mr-1" />
+                    )}
+                    Upsample
+                  </Button>
+                )}
               <div className="flex-1" />
               {status === "complete" && (generatedImages.length > 0 || glbBase64) && (
                 <Button
@@ -476,18 +2557,59 @@ export default function Home() {
 
             {/* Viewer - fills remaining space */}
             <div className="flex-1 min-h-0">
-              {glbBase64 ? (
+              {pendingAdjust?.touchingUp ? (
+                <InpaintEditor
+                  imageBase64={pendingAdjust.imageToUse}
+                  isWorking={isInpainting}
+                  cost={calculateInpaintCost()}
+                  onApply={handleInpaint}
+                  onCancel={() => setPendingAdjust({ ...pendingAdjust, touchingUp: false })}
+                />
+              ) : pendingAdjust ? (
+                <ImageAdjustEditor
+                  imageBase64={pendingAdjust.imageToUse}
+                  value={imageAdjustments}
+                  onChange={setImageAdjustments}
+                  onContinue={handleApplyAdjustments}
+                  onTouchUp={() => setPendingAdjust({ ...pendingAdjust, touchingUp: true })}
+                />
+              ) : candidates ? (
+                <CandidatePicker
+                  images={candidates.images}
+                  onChoose={handleChooseCandidate}
+                  onRegenerate={handleGenerate}
+                  regenerateCost={preprocessCost}
+                />
+              ) : glbBase64 ? (
                 <ModelViewer glbBase64={glbBase64} />
+              ) : generatedImages[0]?.depthBase64 ? (
+                <ParallaxViewer
+                  imageBase64={generatedImages[0].imageBase64}
+                  depthBase64={generatedImages[0].depthBase64}
+                  strength={parallaxStrength}
+                />
+              ) : generationMode === "talking" && generatedImages.length > 0 ? (
+                <TalkingHeadPlayer
+                  images={generatedImages}
+                  transparent={generatedImages.some((img) => img.mimeType)}
+                />
               ) : generatedImages.length > 0 ? (
                 <Viewer3D
                   images={generatedImages}
-                  xSteps={xSteps}
-                  ySteps={ySteps}
+                  layout={viewLayout}
+                  refinement={frameRefinement}
+                  fallbackToNearest={isGenerating}
+                  transparent={generatedImages.some((img) => img.mimeType)}
+                  expressions={renderExpressions}
+                  expressionTrigger={expressionTrigger}
                 />
               ) : previewUrl ? (
-                <Card className="aspect-square overflow-hidden relative bg-black">
+                <Card
+                  className="aspect-square overflow-hidden relative bg-black"
+                  style={processedAlphaBase64 ? CHECKERBOARD_STYLE : undefined}
+                >
                   <Image
-                    src={previewUrl}
+                    src={processedAlphaBase64 ? `data:image/png;base64,${processedAlphaBase64}` : previewUrl}
                     alt="Preview"
                     fill
                     className="object-contain"
@@ -495,20 +2617,38 @@ export default function Home() {
                   {isPreprocessing && (
                     <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center">
                       <Wand2 className="h-8 w-8 text-white mb-2 animate-pulse" />
-                      <p className="text-sm text-white">Creating Pixar character...</p>
+                      <p className="text-sm text-white">
+                        {preprocessMode === "cleanup" ? "Cleaning up photo..." : `Creating ${styleName} character...`}
+                      </p>
                     </div>
                   )}
                   {isGenerating && (
                     <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center">
                       <Loader2 className="h-8 w-8 animate-spin text-white mb-2" />
-                      <p className="text-sm text-white">Generating... {Math.round(progress)}%</p>
+                      <p className="text-sm text-white">
+                        {generationMode === "parallax"
+                          ? "Estimating depth..."
+                          : `Generating... ${Math.round(progress)}%`}
+                      </p>
                     </div>
                   )}
                   {isGenerating3D && (
                     <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center">
                       <Box className="h-8 w-8 text-white mb-2 animate-pulse" />
-                      <p className="text-sm text-white">Creating 3D model...</p>
-                      <p className="text-xs text-white/60 mt-1">This may take 1-2 minutes</p>
+                      <p className="text-sm text-white">
+                        {modelProgress ? MODEL_STATUS_LABELS[modelProgress.status] : "Creating 3D model"}...
+                        {modelProgress?.percent !== undefined && ` ${modelProgress.percent}%`}
+                      </p>
+                      {modelProgress?.percent !== undefined ? (
+                        <Progress value={modelProgress.percent} className="h-1 w-48 mt-3" />
+                      ) : (
+                        <p className="text-xs text-white/60 mt-1">This may take 1-2 minutes</p>
+                      )}
+                      {modelProgress?.logs && (
+                        <p className="text-xs text-white/60 mt-2 max-w-[80%] truncate font-mono">
+                          {modelProgress.logs}
+                        </p>
+                      )}
                     </div>
                   )}
                 </Card>
@@ -527,6 +2667,9 @@ export default function Home() {
         {/* Render History */}
         <RenderHistory
           onLoadRender={handleLoadRender}
+          onEdit={handleEditRender}
+          onRestyle={handleRestyleRender}
+          onRegenerate={isBusy ? undefined : handleRegenerateRender}
           refreshTrigger={historyRefresh}
         />
       </div>
@@ -540,7 +2683,7 @@ export default function Home() {
           />
           <Card className="relative z-10 w-full max-w-sm p-3 gap-1">
             <div className="flex items-center justify-between mb-2">
-              <span className="text-sm font-medium">Style Prompt</span>
+              <span className="text-sm font-medium">Customize Character</span>
               <Button
                 variant="ghost"
                 size="icon"
@@ -550,15 +2693,28 @@ export default function Home() {
                 <X className="h-3 w-3" />
               </Button>
             </div>
+            <PromptComposer
+              attributes={promptAttributeOptions}
+              value={promptAttributes}
+              onChange={setPromptAttributes}
+            />
+            <span className="text-xs text-muted-foreground mt-2">Anything else</span>
             <textarea
               placeholder="e.g., wearing a red hat, cyberpunk style..."
               value={stylePrompt}
               onChange={(e) => setStylePrompt(e.target.value)}
-              className="w-full h-30 px-2 py-2 text-sm rounded-md border border-input bg-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring resize-none"
-              autoFocus
+              className="w-full h-20 px-2 py-2 text-sm rounded-md border border-input bg-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring resize-none"
             />
             <div className="flex gap-2 mt-2">
-              <Button variant="outline" size="sm" className="flex-1" onClick={() => setStylePrompt("")}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => {
+                  setStylePrompt("");
+                  setPromptAttributes({});
+                }}
+              >
                 Clear
               </Button>
               <Button size="sm" className="flex-1" onClick={() => setShowStyleModal(false)}>
@@ -571,12 +2727,16 @@ export default function Home() {
 
       {showExport && (
         <ExportModal
-          images={generatedImages}
-          xSteps={xSteps}
-          ySteps={ySteps}
+          images={exportImages}
+          layout={viewLayout}
           isOpen={showExport}
           onClose={() => setShowExport(false)}
           glbBase64={glbBase64}
+          characterBase64={processedAlphaBase64}
+          parallaxStrength={parallaxStrength}
+          expressions={renderExpressions}
+          expressionTrigger={expressionTrigger}
+          talking={generationMode === "talking"}
         />
       )}
     </div>
@@ -0,0 +1,52 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { RotateCcw } from "lucide-react";
+
+interface CandidatePickerProps {
+  images: string[];
+  onChoose: (index: number) => void;
+  onRegenerate: () => void;
+  /** Cost of another round of candidates, in USD */
+  regenerateCost: number;
+}
+
+/**
+ * Grid of stylization candidates; generation waits until one is picked
+ */
+export function CandidatePicker({ images, onChoose, onRegenerate, regenerateCost }: CandidatePickerProps) {
+  return (
+    <Card className="aspect-square p-3 flex flex-col gap-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Pick a character</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onRegenerate}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Regenerate
+          <span className="ml-1 font-mono text-muted-foreground">${regenerateCost.toFixed(3)}</span>
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 flex-1 min-h-0">
+        {images.map((image, i) => (
+          <button
+            key={i}
+            type="button"
+            className="relative rounded-md overflow-hidden bg-black hover:ring-2 hover:ring-primary transition-all"
+            onClick={() => onChoose(i)}
+            title={`Use candidate ${i + 1}`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={`data:image/png;base64,${image}`}
+              alt={`Candidate ${i + 1}`}
+              className="w-full h-full object-contain"
+            />
+            <span className="absolute top-1 left-1 px-1 rounded bg-black/50 text-[10px] text-white">
+              {i + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -3,30 +3,116 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Box, FileImage, Code, FileCode } from "lucide-react";
-import type { GeneratedImage } from "@/lib/types";
+import { Box, FileImage, Code, FileCode, User, Layers, AudioLines } from "lucide-react";
+import { PARALLAX_FRAGMENT_SHADER, PARALLAX_VERTEX_SHADER } from "@/lib/parallax";
+import { cellAtPosition, countFrames, countLayoutCells, VISEME_IDS } from "@/lib/constants";
+import { FORMANT_BANDS, LIPSYNC_THRESHOLDS } from "@/lib/lipsync";
+import type {
+  ExpressionLayerId,
+  ExpressionTrigger,
+  FrameLayout,
+  FrameMimeType,
+  GeneratedImage,
+} from "@/lib/types";
 
 interface ExportModalProps {
   images: GeneratedImage[];
-  xSteps: number;
-  ySteps: number;
+  layout: FrameLayout;
   isOpen: boolean;
   onClose: () => void;
   glbBase64?: string | null;
+  characterBase64?: string | null; // Matted character as a transparent PNG
+  parallaxStrength?: number;
+  expressions?: ExpressionLayerId[]; // Layers after the neutral grid
+  expressionTrigger?: ExpressionTrigger;
+  talking?: boolean; // Frames are the lip-sync set rather than a grid
+}
+
+const FILE_EXTENSIONS: Record<FrameMimeType, string> = {
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Source of a cellAt(x, y) function for an exported viewer, mirroring
+ * cellAtPosition for one layout
+ */
+function cellAtSource(layout: FrameLayout, typed: boolean): string {
+  const number = typed ? ": number" : "";
+  if (layout.kind === "polar") {
+    const { rings, directions } = layout;
+    return `// Nearest ring by distance from the centre, then the nearest direction on it
+function cellAt(x${number}, y${number}) {
+  const dx = x * 2 - 1;
+  const dy = y * 2 - 1;
+  const ring = Math.round(Math.min(Math.hypot(dx, dy), 1) * ${rings});
+  if (ring === 0) return 0;
+  const angle = (Math.atan2(dx, -dy) + 2 * Math.PI) % (2 * Math.PI);
+  const direction = Math.round((angle / (2 * Math.PI)) * ${directions}) % ${directions};
+  return 1 + (ring - 1) * ${directions} + direction;
+}`;
+  }
+
+  const { xSteps, ySteps, eyeXSteps, eyeYSteps } = layout;
+  const comment =
+    eyeXSteps * eyeYSteps > 1
+      ? `${xSteps} x ${ySteps} head grid with a ${eyeXSteps} x ${eyeYSteps} eye grid in each cell; the eyes follow the cursor within the head cell`
+      : `${xSteps} x ${ySteps} grid, row by row`;
+  return `// ${comment}
+function cellAt(x${number}, y${number}) {
+  const pick = (position${number}, steps${number}) =>
+    Math.min(Math.max(Math.floor(position * steps), 0), steps - 1);
+  const within = (position${number}, steps${number}, cell${number}) =>
+    Math.min(Math.max(position * steps - cell, 0), 1);
+  const headX = pick(x, ${xSteps});
+  const headY = pick(y, ${ySteps});
+  const column = headX * ${eyeXSteps} + pick(within(x, ${xSteps}, headX), ${eyeXSteps});
+  const row = headY * ${eyeYSteps} + pick(within(y, ${ySteps}, headY), ${eyeYSteps});
+  return row * ${xSteps * eyeXSteps} + column;
+}`;
+}
+
+function downloadDataUrl(dataUrl: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = dataUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
 }
 
 export function ExportModal({
   images,
-  xSteps,
-  ySteps,
+  layout,
   isOpen,
   onClose,
   glbBase64,
+  characterBase64,
+  parallaxStrength = 0,
+  expressions = [],
+  expressionTrigger = "click",
+  talking = false,
 }: ExportModalProps) {
   const [exporting, setExporting] = useState(false);
 
   if (!isOpen) return null;
 
+  // Frames keyed by grid index; failed frames leave gaps
+  const frames = images
+    .map((img, i) => ({
+      index: img.index ?? i,
+      base64: img.imageBase64,
+      mimeType: img.mimeType ?? "image/png",
+    }))
+    .sort((a, b) => a.index - b.index);
+  const transparent = images.some((img) => img.mimeType);
+  const synthesizedCount = images.filter((img) => img.synthesized).length;
+  const parallax = images[0]?.depthBase64 ? images[0] : null;
+  const extension = FILE_EXTENSIONS[frames[0]?.mimeType ?? "image/png"];
+  const cellCount = countLayoutCells(layout);
+  const centerIndex = cellAtPosition(0.5, 0.5, layout);
+  const frameTotal = talking ? VISEME_IDS.length : countFrames(layout, expressions);
+
   const downloadGlb = () => {
     if (!glbBase64) return;
     
@@ -47,12 +133,7 @@ export function ExportModal({
   };
 
   const generateEmbedCode = () => {
-    const imagesJson = JSON.stringify(
-      images.map((img, index) => ({
-        index,
-        base64: img.imageBase64,
-      }))
-    );
+    const imagesJson = JSON.stringify(frames);
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -67,7 +148,7 @@ export function ExportModal({
       justify-content: center;
       align-items: center;
       min-height: 100vh;
-      background: #1a1a1a;
+      background: ${transparent ? "transparent" : "#1a1a1a"};
     }
     .container {
       position: relative;
@@ -88,18 +169,71 @@ export function ExportModal({
   </div>
   <script>
     const images = ${imagesJson};
-    const xSteps = ${xSteps};
-    const ySteps = ${ySteps};
+    // Expression layers follow the neutral grid, one frame per cell
+    const expressions = ${JSON.stringify(expressions)};
+    const trigger = '${expressionTrigger}';
     const avatar = document.getElementById('avatar');
     const container = document.getElementById('container');
 
-    const loadedImages = images.map(img => {
+    const loadedImages = [];
+    images.forEach(img => {
       const imgEl = new Image();
-      imgEl.src = 'data:image/png;base64,' + img.base64;
-      return imgEl;
+      imgEl.src = 'data:' + img.mimeType + ';base64,' + img.base64;
+      loadedImages[img.index] = imgEl;
     });
 
-    avatar.src = loadedImages[0].src;
+    const cells = ${cellCount};
+    const blinkLayer = expressions.indexOf('blink') + 1;
+    const switchable = expressions
+      .map((id, i) => (id === 'blink' ? 0 : i + 1))
+      .filter(Boolean);
+    let cell = ${centerIndex};
+    let layer = 0;
+    let blinking = false;
+
+    ${cellAtSource(layout, false).replace(/\n/g, "\n    ")}
+
+    function show() {
+      const current = blinking ? blinkLayer : layer;
+      const frame = loadedImages[current * cells + cell] || loadedImages[cell];
+      if (frame) avatar.src = frame.src;
+    }
+
+    const initial = loadedImages[cell] || loadedImages.find(Boolean);
+    if (initial) avatar.src = initial.src;
+
+    if (blinkLayer) {
+      (function scheduleBlink() {
+        setTimeout(() => {
+          blinking = true;
+          show();
+          setTimeout(() => {
+            blinking = false;
+            show();
+            scheduleBlink();
+          }, 150);
+        }, 2500 + Math.random() * 3000);
+      })();
+    }
+
+    if (switchable.length > 0 && trigger === 'hover') {
+      let hoverCount = 0;
+      container.addEventListener('mouseenter', () => {
+        layer = switchable[hoverCount++ % switchable.length];
+        show();
+      });
+      container.addEventListener('mouseleave', () => {
+        layer = 0;
+        show();
+      });
+    } else if (switchable.length > 0) {
+      const cycle = [0, ...switchable];
+      container.style.cursor = 'pointer';
+      container.addEventListener('click', () => {
+        layer = cycle[(cycle.indexOf(layer) + 1) % cycle.length];
+        show();
+      });
+    }
 
     let lastUpdate = 0;
     const throttleMs = 16;
@@ -113,14 +247,226 @@ export function ExportModal({
       const x = (e.clientX - rect.left) / rect.width;
       const y = (e.clientY - rect.top) / rect.height;
 
-      const xIndex = Math.min(Math.floor(x * xSteps), xSteps - 1);
-      const yIndex = Math.min(Math.floor(y * ySteps), ySteps - 1);
-      const imageIndex = yIndex * xSteps + xIndex;
+      const imageIndex = cellAt(x, y);
 
       if (loadedImages[imageIndex]) {
-        avatar.src = loadedImages[imageIndex].src;
+        cell = imageIndex;
+        show();
+      }
+    });
+  </script>
+</body>
+</html>`;
+  };
+
+  // Mirrors ParallaxViewer with plain WebGL so the file has no dependencies
+  const generateParallaxEmbedCode = () => {
+    if (!parallax) return "";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Parallax Avatar</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      background: #1a1a1a;
+    }
+    canvas {
+      width: min(500px, 90vw);
+      aspect-ratio: 1;
+      border-radius: 8px;
+    }
+  </style>
+</head>
+<body>
+  <canvas id="avatar"></canvas>
+  <script>
+    const IMAGE = 'data:image/png;base64,${parallax.imageBase64}';
+    const DEPTH = 'data:image/png;base64,${parallax.depthBase64}';
+    const STRENGTH = ${parallaxStrength};
+    const VERTEX_SHADER = \`${PARALLAX_VERTEX_SHADER}\`;
+    const FRAGMENT_SHADER = \`${PARALLAX_FRAGMENT_SHADER}\`;
+
+    const canvas = document.getElementById('avatar');
+    const gl = canvas.getContext('webgl', { premultipliedAlpha: false });
+
+    function loadImage(src) {
+      return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+      });
+    }
+
+    function compile(type, source) {
+      const shader = gl.createShader(type);
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      return shader;
+    }
+
+    function texture(unit, img) {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, gl.createTexture());
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, img);
+    }
+
+    Promise.all([loadImage(IMAGE), loadImage(DEPTH)]).then(([image, depth]) => {
+      canvas.width = canvas.clientWidth * (window.devicePixelRatio || 1);
+      canvas.height = canvas.clientHeight * (window.devicePixelRatio || 1);
+
+      const program = gl.createProgram();
+      gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+      gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+      gl.linkProgram(program);
+      gl.useProgram(program);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+      const position = gl.getAttribLocation(program, 'a_position');
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+      texture(0, image);
+      texture(1, depth);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_image'), 0);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_depth'), 1);
+      const offset = gl.getUniformLocation(program, 'u_offset');
+
+      function draw(x, y) {
+        gl.viewport(0, 0, canvas.width, canvas.height);
+        gl.uniform2f(offset, x * STRENGTH, y * STRENGTH);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      }
+
+      draw(0, 0);
+      canvas.addEventListener('mousemove', (e) => {
+        const rect = canvas.getBoundingClientRect();
+        draw(
+          ((e.clientX - rect.left) / rect.width) * 2 - 1,
+          ((e.clientY - rect.top) / rect.height) * 2 - 1
+        );
+      });
+      canvas.addEventListener('mouseleave', () => draw(0, 0));
+    });
+  </script>
+</body>
+</html>`;
+  };
+
+  // Mirrors createLipSync and pickViseme from lib/lipsync with plain Web Audio
+  const generateTalkingEmbedCode = () => {
+    const visemeFrames = Object.fromEntries(
+      frames.map((frame) => [VISEME_IDS[frame.index], `data:${frame.mimeType};base64,${frame.base64}`])
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Talking Avatar</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      background: ${transparent ? "transparent" : "#1a1a1a"};
+      color: #e4e4e7;
+      font-family: sans-serif;
+    }
+    .avatar {
+      width: min(500px, 90vw);
+      aspect-ratio: 1;
+      object-fit: cover;
+      border-radius: 8px;
+    }
+  </style>
+</head>
+<body>
+  <img class="avatar" id="avatar" alt="Talking Avatar">
+  <input type="file" id="file" accept="audio/*">
+  <audio id="audio" controls></audio>
+  <script>
+    const FRAMES = ${JSON.stringify(visemeFrames)};
+    const THRESHOLDS = ${JSON.stringify(LIPSYNC_THRESHOLDS)};
+    const BANDS = ${JSON.stringify(FORMANT_BANDS)};
+    const avatar = document.getElementById('avatar');
+    const audio = document.getElementById('audio');
+    const rest = FRAMES.closed || Object.values(FRAMES)[0];
+    avatar.src = rest;
+
+    let analyser = null;
+    document.getElementById('file').addEventListener('change', (e) => {
+      const file = e.target.files[0];
+      if (!file) return;
+      audio.src = URL.createObjectURL(file);
+      if (!analyser) {
+        const context = new AudioContext();
+        analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.5;
+        context.createMediaElementSource(audio).connect(analyser);
+        analyser.connect(context.destination);
+        audio.addEventListener('play', () => context.resume());
+        requestAnimationFrame(tick);
       }
+      audio.play();
     });
+
+    function bandEnergy(freqData, binHz, band) {
+      const start = Math.floor(band[0] / binHz);
+      const end = Math.min(Math.ceil(band[1] / binHz), freqData.length);
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += freqData[i];
+      return end > start ? sum / (end - start) / 255 : 0;
+    }
+
+    function pickViseme() {
+      const timeData = new Float32Array(analyser.fftSize);
+      const freqData = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getFloatTimeDomainData(timeData);
+      analyser.getByteFrequencyData(freqData);
+
+      let sumSquares = 0;
+      for (const sample of timeData) sumSquares += sample * sample;
+      const rms = Math.sqrt(sumSquares / timeData.length);
+      if (rms < THRESHOLDS.SILENCE) return 'closed';
+
+      const binHz = analyser.context.sampleRate / analyser.fftSize;
+      const ratio = bandEnergy(freqData, binHz, BANDS.F2) / Math.max(bandEnergy(freqData, binHz, BANDS.F1), 1e-6);
+      if (ratio > THRESHOLDS.FRONT_VOWEL) return 'eee';
+      if (ratio < THRESHOLDS.ROUND_VOWEL) return 'ooo';
+      return rms > THRESHOLDS.LOUD ? 'aaa' : 'small';
+    }
+
+    let current = 'closed';
+    let changedAt = 0;
+    function tick(now) {
+      const next = audio.paused ? 'closed' : pickViseme();
+      if (next !== current && now - changedAt >= THRESHOLDS.HOLD_MS) {
+        current = next;
+        changedAt = now;
+        avatar.src = FRAMES[next] || rest;
+      }
+      requestAnimationFrame(tick);
+    }
   </script>
 </body>
 </html>`;
@@ -131,26 +477,28 @@ export function ExportModal({
 
 import { useState, useCallback } from "react";
 
-const IMAGES = [
-${images.map((_, i) => `  "/avatar-frames/frame-${i}.png",`).join("\n")}
+// null marks layout cells without a frame
+const IMAGES: (string | null)[] = [
+${Array.from({ length: cellCount }, (_, i) =>
+  frames.some((frame) => frame.index === i)
+    ? `  "/avatar-frames/frame-${i.toString().padStart(3, "0")}.${extension}",`
+    : "  null,"
+).join("\n")}
 ];
 
-const X_STEPS = ${xSteps};
-const Y_STEPS = ${ySteps};
+${cellAtSource(layout, true)}
 
 export function Avatar3D() {
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(${centerIndex});
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const x = (e.clientX - rect.left) / rect.width;
     const y = (e.clientY - rect.top) / rect.height;
 
-    const xIndex = Math.min(Math.floor(x * X_STEPS), X_STEPS - 1);
-    const yIndex = Math.min(Math.floor(y * Y_STEPS), Y_STEPS - 1);
-    const imageIndex = yIndex * X_STEPS + xIndex;
+    const imageIndex = cellAt(x, y);
 
-    setCurrentIndex(imageIndex);
+    if (IMAGES[imageIndex]) setCurrentIndex(imageIndex);
   }, []);
 
   return (
@@ -159,7 +507,7 @@ export function Avatar3D() {
       onMouseMove={handleMouseMove}
     >
       <img
-        src={IMAGES[currentIndex]}
+        src={IMAGES[currentIndex] ?? undefined}
         alt="3D Avatar"
         className="w-full h-full object-cover rounded-lg"
       />
@@ -171,7 +519,11 @@ export function Avatar3D() {
   const downloadHtml = async () => {
     setExporting(true);
     try {
-      const html = generateEmbedCode();
+      const html = parallax
+        ? generateParallaxEmbedCode()
+        : talking
+          ? generateTalkingEmbedCode()
+          : generateEmbedCode();
       const blob = new Blob([html], { type: "text/html" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -189,14 +541,11 @@ export function Avatar3D() {
   const downloadImages = async () => {
     setExporting(true);
     try {
-      for (let i = 0; i < images.length; i++) {
-        const image = images[i];
-        const a = document.createElement("a");
-        a.href = `data:image/png;base64,${image.imageBase64}`;
-        a.download = `frame-${i.toString().padStart(3, "0")}.png`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
+      for (const frame of frames) {
+        downloadDataUrl(
+          `data:${frame.mimeType};base64,${frame.base64}`,
+          `frame-${frame.index.toString().padStart(3, "0")}.${FILE_EXTENSIONS[frame.mimeType]}`
+        );
         await new Promise((r) => setTimeout(r, 100));
       }
     } finally {
@@ -238,19 +587,19 @@ export function Avatar3D() {
             </div>
           )}
 
-          {/* Frame-based exports - Show if images exist */}
-          {images.length > 0 && (
+          {/* Parallax exports - a single image with its depth map */}
+          {parallax && (
             <>
-              <div className="space-y-2">
+              <div className="space-y-2 p-4 bg-primary/5 rounded-lg border border-primary/20">
                 <h3 className="font-medium flex items-center gap-2">
-                  <FileCode className="h-4 w-4" />
-                  Standalone HTML File
+                  <Layers className="h-4 w-4" />
+                  Parallax HTML File
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Download a self-contained HTML file with all images embedded.
-                  Perfect for quick demos or embedding in websites.
+                  Download a self-contained HTML file with the image and depth map embedded.
+                  Renders with WebGL and needs no libraries.
                 </p>
-                <Button onClick={downloadHtml} variant="outline" disabled={exporting}>
+                <Button onClick={downloadHtml} disabled={exporting}>
                   {exporting ? "Exporting..." : "Download HTML File"}
                 </Button>
               </div>
@@ -258,36 +607,131 @@ export function Avatar3D() {
               <div className="space-y-2">
                 <h3 className="font-medium flex items-center gap-2">
                   <FileImage className="h-4 w-4" />
-                  Download All Frames
+                  Image and Depth Map
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Download all {images.length} image frames separately. Use these
-                  with your own implementation or video editing software.
+                  Download the character and its greyscale depth map (near is bright) for
+                  use in your own renderer.
                 </p>
-                <Button onClick={downloadImages} variant="outline" disabled={exporting}>
-                  {exporting ? "Downloading..." : `Download ${images.length} Images`}
+                <Button
+                  onClick={() => {
+                    downloadDataUrl(`data:image/png;base64,${parallax.imageBase64}`, "avatar.png");
+                    downloadDataUrl(`data:image/png;base64,${parallax.depthBase64}`, "avatar-depth.png");
+                  }}
+                  variant="outline"
+                >
+                  Download 2 Images
                 </Button>
               </div>
+            </>
+          )}
+
+          {/* Frame-based exports - Show if images exist */}
+          {images.length > 0 && !parallax && (
+            <>
+              {talking ? (
+                <div className="space-y-2 p-4 bg-primary/5 rounded-lg border border-primary/20">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <AudioLines className="h-4 w-4" />
+                    Talking Head HTML Player
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Download a self-contained HTML player with the mouth frames embedded. Open it,
+                    pick an audio file and the avatar lip-syncs to it using Web Audio.
+                  </p>
+                  <Button onClick={downloadHtml} disabled={exporting}>
+                    {exporting ? "Exporting..." : "Download HTML Player"}
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <FileCode className="h-4 w-4" />
+                    Standalone HTML File
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Download a self-contained HTML file with all images embedded.
+                    Perfect for quick demos or embedding in websites.
+                  </p>
+                  <Button onClick={downloadHtml} variant="outline" disabled={exporting}>
+                    {exporting ? "Exporting..." : "Download HTML File"}
+                  </Button>
+                </div>
+              )}
 
               <div className="space-y-2">
                 <h3 className="font-medium flex items-center gap-2">
-                  <Code className="h-4 w-4" />
-                  React Component Code
+                  <FileImage className="h-4 w-4" />
+                  Download All Frames
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Copy a React component that you can use in your Next.js/React
-                  project. You&apos;ll need to save the frames as separate files.
+                  Download all {images.length} image frames separately. Use these
+                  with your own implementation or video editing software.
+                  {transparent && " Frames keep their transparent background."}
                 </p>
-                <Button onClick={copyReactCode} variant="outline">
-                  Copy React Code
+                <Button onClick={downloadImages} variant="outline" disabled={exporting}>
+                  {exporting ? "Downloading..." : `Download ${images.length} Images`}
                 </Button>
               </div>
 
+              {!talking && (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <Code className="h-4 w-4" />
+                    React Component Code
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Copy a React component that you can use in your Next.js/React
+                    project. You&apos;ll need to save the frames as separate files.
+                  </p>
+                  <Button onClick={copyReactCode} variant="outline">
+                    Copy React Code
+                  </Button>
+                </div>
+              )}
+
+              {characterBase64 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <User className="h-4 w-4" />
+                    Transparent Character
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Download the prepared character with its background removed, as a PNG.
+                  </p>
+                  <Button
+                    onClick={() =>
+                      downloadDataUrl(`data:image/png;base64,${characterBase64}`, "avatar-character.png")
+                    }
+                    variant="outline"
+                  >
+                    Download Character
+                  </Button>
+                </div>
+              )}
+
               <div className="p-4 bg-muted rounded-lg">
                 <h4 className="font-medium text-sm mb-2">Generated Configuration</h4>
                 <div className="text-xs font-mono space-y-1">
-                  <p>Grid: {xSteps} x {ySteps}</p>
+                  {talking ? (
+                    <p>Mouth Shapes: {VISEME_IDS.join(", ")}</p>
+                  ) : (
+                    <p>
+                      {layout.kind === "polar"
+                        ? `Layout: polar, ${layout.rings} rings x ${layout.directions} directions`
+                        : `Grid: ${layout.xSteps} x ${layout.ySteps}`}
+                    </p>
+                  )}
+                  {!talking && layout.kind === "grid" && layout.eyeXSteps * layout.eyeYSteps > 1 && (
+                    <p>Eye Grid: {layout.eyeXSteps} x {layout.eyeYSteps} per head pose</p>
+                  )}
                   <p>Total Frames: {images.length}</p>
+                  {synthesizedCount > 0 && <p>Synthesized Frames: {synthesizedCount}</p>}
+                  <p>Format: {extension.toUpperCase()}{transparent ? " (transparent)" : ""}</p>
+                  {expressions.length > 0 && <p>Expressions: {expressions.join(", ")}</p>}
+                  {images.length < frameTotal && (
+                    <p>Missing Frames: {frameTotal - images.length}</p>
+                  )}
                 </div>
               </div>
             </>
@@ -0,0 +1,140 @@
+"use client";
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { cropAroundFace, type Box, type DetectedFace } from "@/lib/faces";
+
+// Displayed height of the photo while editing
+const EDITOR_HEIGHT = 220;
+
+interface FaceCropEditorProps {
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+  faces: DetectedFace[];
+  crop: Box;
+  onCropChange: (crop: Box) => void;
+  onApply: () => void;
+  onUseFullPhoto: () => void;
+}
+
+function toPercent(box: Box, imageWidth: number, imageHeight: number) {
+  return {
+    left: `${(box.x / imageWidth) * 100}%`,
+    top: `${(box.y / imageHeight) * 100}%`,
+    width: `${(box.width / imageWidth) * 100}%`,
+    height: `${(box.height / imageHeight) * 100}%`,
+  };
+}
+
+/**
+ * Photo with detected faces and a draggable square crop box
+ */
+export function FaceCropEditor({
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  faces,
+  crop,
+  onCropChange,
+  onApply,
+  onUseFullPhoto,
+}: FaceCropEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: Box } | null>(null);
+
+  const maxSize = Math.max(imageWidth, imageHeight) * 1.5;
+  const minSize = Math.min(imageWidth, imageHeight) * 0.1;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+
+    // Convert screen pixels to image pixels
+    const scale = imageWidth / container.getBoundingClientRect().width;
+    onCropChange({
+      ...drag.crop,
+      x: drag.crop.x + (e.clientX - drag.pointerX) * scale,
+      y: drag.crop.y + (e.clientY - drag.pointerY) * scale,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Resize around the current centre
+  const handleSizeChange = (size: number) => {
+    onCropChange({
+      x: crop.x + (crop.width - size) / 2,
+      y: crop.y + (crop.height - size) / 2,
+      width: size,
+      height: size,
+    });
+  };
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div
+        ref={containerRef}
+        className="relative mx-auto overflow-hidden rounded-md select-none touch-none"
+        style={{ width: (EDITOR_HEIGHT * imageWidth) / imageHeight, maxWidth: "100%" }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={imageUrl} alt="Uploaded photo" className="w-full h-auto block" draggable={false} />
+
+        {/* Detected faces; click one to frame it */}
+        {faces.map((face, i) => (
+          <button
+            key={i}
+            type="button"
+            className="absolute border border-dashed border-yellow-400/80 hover:bg-yellow-400/20"
+            style={toPercent(face, imageWidth, imageHeight)}
+            onClick={() => onCropChange(cropAroundFace(face))}
+            title={`Face ${i + 1} (${Math.round(face.score * 100)}%)`}
+          />
+        ))}
+
+        {/* Crop box; everything outside is dimmed */}
+        <div
+          className="absolute border-2 border-primary cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+          style={toPercent(crop, imageWidth, imageHeight)}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Crop size</span>
+          <span className="text-xs text-muted-foreground">Drag the box to move it</span>
+        </div>
+        <Slider
+          value={[crop.width]}
+          onValueChange={([value]) => handleSizeChange(value)}
+          min={minSize}
+          max={maxSize}
+          step={(maxSize - minSize) / 100}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={onUseFullPhoto}>
+          Use full photo
+        </Button>
+        <Button size="sm" className="flex-1" onClick={onApply}>
+          Apply crop
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { DEFAULT_GRID_ANGLES, GRID_ANGLE_LIMITS, generateSteps } from "@/lib/constants";
+import type { AngleRange, GenerateStepsOptions, GridAngles } from "@/lib/types";
+
+// Diagram size in SVG units; the plot spans ±MAX_ROTATE on both axes
+const DIAGRAM_SIZE = 200;
+const DIAGRAM_PADDING = 12;
+
+const RANGE_FIELDS: {
+  key: "yaw" | "pitch" | "pupilX" | "pupilY";
+  label: string;
+  limit: number;
+  unit: string;
+}[] = [
+  { key: "yaw", label: "Turn left / right", limit: GRID_ANGLE_LIMITS.MAX_ROTATE, unit: "°" },
+  { key: "pitch", label: "Look up / down", limit: GRID_ANGLE_LIMITS.MAX_ROTATE, unit: "°" },
+  { key: "pupilX", label: "Eyes left / right", limit: GRID_ANGLE_LIMITS.MAX_PUPIL, unit: "" },
+  { key: "pupilY", label: "Eyes up / down", limit: GRID_ANGLE_LIMITS.MAX_PUPIL, unit: "" },
+];
+
+const CURVE_FIELDS: { key: "headCurve" | "pupilCurve"; label: string }[] = [
+  { key: "headCurve", label: "Head easing" },
+  { key: "pupilCurve", label: "Eye easing" },
+];
+
+interface GridAnglesEditorProps {
+  value: GridAngles;
+  onChange: (value: GridAngles) => void;
+  /** Layout settings the angles are plotted for */
+  grid: Omit<GenerateStepsOptions, "prefix" | "angles" | "expressions">;
+  disabled?: boolean;
+}
+
+/**
+ * Per-axis bounds and easing for the cursor grid, with a plot of every cell
+ */
+export function GridAnglesEditor({ value, onChange, grid, disabled }: GridAnglesEditorProps) {
+  // The same mapping the stream route will request
+  const { xSteps, ySteps, gridType, eyeXSteps, eyeYSteps, layout, rings, directions } = grid;
+  const cells = useMemo(
+    () =>
+      generateSteps({
+        xSteps,
+        ySteps,
+        prefix: "",
+        angles: value,
+        gridType,
+        eyeXSteps,
+        eyeYSteps,
+        layout,
+        rings,
+        directions,
+      }).steps.flat(),
+    [xSteps, ySteps, value, gridType, eyeXSteps, eyeYSteps, layout, rings, directions]
+  );
+
+  const half = DIAGRAM_SIZE / 2;
+  const scale = (half - DIAGRAM_PADDING) / GRID_ANGLE_LIMITS.MAX_ROTATE;
+  const pupilScale = (DIAGRAM_PADDING * 1.5) / GRID_ANGLE_LIMITS.MAX_PUPIL;
+
+  // Zero must stay inside every range, so each thumb is held on its own side
+  const updateRange = (key: (typeof RANGE_FIELDS)[number]["key"], [min, max]: number[]) => {
+    const range: AngleRange = { min: Math.min(min, 0), max: Math.max(max, 0) };
+    onChange({ ...value, [key]: range });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-4">
+        <svg
+          viewBox={`0 0 ${DIAGRAM_SIZE} ${DIAGRAM_SIZE}`}
+          className="w-40 shrink-0 rounded-md bg-zinc-900"
+          role="img"
+          aria-label="Head and eye angle requested for each grid cell"
+        >
+          <line x1={half} y1={0} x2={half} y2={DIAGRAM_SIZE} className="stroke-zinc-700" />
+          <line x1={0} y1={half} x2={DIAGRAM_SIZE} y2={half} className="stroke-zinc-700" />
+          {cells.map((step, i) => {
+            const cx = half + step.rotate_yaw * scale;
+            const cy = half + step.rotate_pitch * scale;
+            return (
+              <g key={i}>
+                <title>
+                  {`Cell ${i + 1}: turn ${step.rotate_yaw}°, pitch ${step.rotate_pitch}°, eyes ${step.pupil_x} / ${step.pupil_y}`}
+                </title>
+                <line
+                  x1={cx}
+                  y1={cy}
+                  x2={cx + step.pupil_x * pupilScale}
+                  y2={cy + step.pupil_y * pupilScale}
+                  className="stroke-sky-400"
+                  strokeWidth={1.5}
+                />
+                <circle cx={cx} cy={cy} r={3} className="fill-white" />
+              </g>
+            );
+          })}
+        </svg>
+
+        <p className="text-xs text-muted-foreground">
+          Each dot is a frame&apos;s head angle, from left to right and up to down. The blue line
+          shows where its eyes point. Easing above 1 packs frames near the centre.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {RANGE_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{field.label}</span>
+              <span className="font-mono">
+                {value[field.key].min}
+                {field.unit} / {value[field.key].max}
+                {field.unit}
+              </span>
+            </div>
+            <Slider
+              value={[value[field.key].min, value[field.key].max]}
+              onValueChange={(range) => updateRange(field.key, range)}
+              min={-field.limit}
+              max={field.limit}
+              step={1}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+
+        {CURVE_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{field.label}</span>
+              <span className="font-mono">{value[field.key].toFixed(1)}</span>
+            </div>
+            <Slider
+              value={[value[field.key]]}
+              onValueChange={([v]) => onChange({ ...value, [field.key]: v })}
+              min={GRID_ANGLE_LIMITS.MIN_CURVE}
+              max={GRID_ANGLE_LIMITS.MAX_CURVE}
+              step={0.1}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={() => onChange(DEFAULT_GRID_ANGLES)}
+        disabled={disabled}
+      >
+        Reset angles
+      </Button>
+    </div>
+  );
+}
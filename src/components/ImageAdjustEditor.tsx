@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { DEFAULT_ADJUSTMENTS, decodeBase64Image, drawAdjusted } from "@/lib/adjust";
+import type { ImageAdjustments } from "@/lib/types";
+import { Brush } from "lucide-react";
+
+// Preview resolution; the final image is rendered at full size
+const PREVIEW_SIZE = 512;
+
+const BACKGROUND_SWATCHES = ["#000000", "#ffffff", "#808080"];
+
+const ADJUSTMENT_FIELDS: {
+  key: Exclude<keyof ImageAdjustments, "background">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: "scale", label: "Zoom", min: 0.5, max: 2, step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+  { key: "offsetX", label: "Pan X", min: -0.5, max: 0.5, step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+  { key: "offsetY", label: "Pan Y", min: -0.5, max: 0.5, step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+  { key: "rotation", label: "Rotate", min: -45, max: 45, step: 0.5, format: (v) => `${v}°` },
+  { key: "brightness", label: "Brightness", min: 50, max: 150, step: 1, format: (v) => `${v}%` },
+  { key: "contrast", label: "Contrast", min: 50, max: 150, step: 1, format: (v) => `${v}%` },
+];
+
+interface ImageAdjustEditorProps {
+  imageBase64: string;
+  value: ImageAdjustments;
+  onChange: (value: ImageAdjustments) => void;
+  onContinue: () => void;
+  /** Switch to painting a mask to repaint part of the image */
+  onTouchUp?: () => void;
+}
+
+/**
+ * Crop, rotate and tone controls with a live canvas preview
+ */
+export function ImageAdjustEditor({
+  imageBase64,
+  value,
+  onChange,
+  onContinue,
+  onTouchUp,
+}: ImageAdjustEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeBase64Image(imageBase64)
+      .then((bitmap) => {
+        if (!cancelled) setImage(bitmap);
+      })
+      .catch((err) => console.error("Failed to decode image:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageBase64]);
+
+  // Redraw the preview whenever an adjustment changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    canvas.width = PREVIEW_SIZE;
+    canvas.height = Math.round((PREVIEW_SIZE * image.height) / image.width);
+    drawAdjusted(canvas.getContext("2d")!, image, canvas.width, canvas.height, value);
+  }, [image, value]);
+
+  return (
+    <Card className="p-3 gap-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Adjust character</span>
+        <div className="flex items-center gap-1">
+          {onTouchUp && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onTouchUp}>
+              <Brush className="h-3 w-3 mr-1" />
+              Touch up
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange(DEFAULT_ADJUSTMENTS)}
+          >
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <canvas ref={canvasRef} className="w-full max-h-[260px] object-contain rounded-md bg-black" />
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {ADJUSTMENT_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{field.label}</span>
+              <span className="font-mono">{field.format(value[field.key])}</span>
+            </div>
+            <Slider
+              value={[value[field.key]]}
+              onValueChange={([v]) => onChange({ ...value, [field.key]: v })}
+              min={field.min}
+              max={field.max}
+              step={field.step}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Background fill</span>
+        <div className="flex items-center gap-1">
+          {BACKGROUND_SWATCHES.map((colour) => (
+            <button
+              key={colour}
+              type="button"
+              className={`h-5 w-5 rounded border ${value.background === colour ? "ring-2 ring-primary" : ""}`}
+              style={{ backgroundColor: colour }}
+              onClick={() => onChange({ ...value, background: colour })}
+              title={colour}
+            />
+          ))}
+          <input
+            type="color"
+            value={value.background}
+            onChange={(e) => onChange({ ...value, background: e.target.value })}
+            className="h-5 w-6 cursor-pointer bg-transparent"
+            title="Custom colour"
+          />
+        </div>
+      </div>
+
+      <Button size="sm" onClick={onContinue}>
+        Continue
+      </Button>
+    </Card>
+  );
+}
@@ -3,7 +3,18 @@
 import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import { Card, CardContent } from "@/components/ui/card";
-import { Upload, ImageIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FaceCropEditor } from "@/components/FaceCropEditor";
+import {
+  detectFaces,
+  cropAroundFace,
+  centerCrop,
+  cropImage,
+  loadImage,
+  type Box,
+  type DetectedFace,
+} from "@/lib/faces";
+import { Upload, ImageIcon, Loader2, AlertTriangle, Crop } from "lucide-react";
 import Image from "next/image";
 
 interface ImageUploadProps {
@@ -11,8 +22,75 @@ interface ImageUploadProps {
   disabled?: boolean;
 }
 
+interface SourcePhoto {
+  url: string;
+  image: HTMLImageElement;
+}
+
 export function ImageUpload({ onImageSelect, disabled }: ImageUploadProps) {
   const [preview, setPreview] = useState<string | null>(null);
+  const [source, setSource] = useState<SourcePhoto | null>(null);
+  const [faces, setFaces] = useState<DetectedFace[]>([]);
+  const [crop, setCrop] = useState<Box | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const selectDataUrl = useCallback(
+    (dataUrl: string) => {
+      setPreview(dataUrl);
+      onImageSelect(dataUrl.split(",")[1], dataUrl);
+    },
+    [onImageSelect]
+  );
+
+  const applyCrop = useCallback(
+    (photo: SourcePhoto, box: Box) => {
+      selectDataUrl(cropImage(photo.image, box));
+    },
+    [selectDataUrl]
+  );
+
+  // Find the face, crop around it and flag uploads that need a manual look
+  const processPhoto = useCallback(
+    async (url: string) => {
+      const image = await loadImage(url);
+      const photo = { url, image };
+      setSource(photo);
+      setFaces([]);
+      setWarning(null);
+      setIsEditing(false);
+      setIsDetecting(true);
+
+      try {
+        const detected = await detectFaces(url);
+        setFaces(detected);
+
+        const box = detected[0]
+          ? cropAroundFace(detected[0])
+          : centerCrop(image.naturalWidth, image.naturalHeight);
+        setCrop(box);
+        applyCrop(photo, box);
+
+        if (detected.length === 0) {
+          setWarning("No face found. Adjust the crop or try another photo.");
+          setIsEditing(true);
+        } else if (detected.length > 1) {
+          setWarning(`${detected.length} faces found. Click the one to use.`);
+          setIsEditing(true);
+        }
+      } catch (error) {
+        // Detection is a convenience; fall back to the photo as uploaded
+        console.error("Face detection failed:", error);
+        setCrop(centerCrop(image.naturalWidth, image.naturalHeight));
+        setWarning("Face detection unavailable, using the full photo.");
+        selectDataUrl(url);
+      } finally {
+        setIsDetecting(false);
+      }
+    },
+    [applyCrop, selectDataUrl]
+  );
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
@@ -23,12 +101,15 @@ export function ImageUpload({ onImageSelect, disabled }: ImageUploadProps) {
       reader.onload = () => {
         const base64 = reader.result as string;
         setPreview(base64);
-        const base64Data = base64.split(",")[1];
-        onImageSelect(base64Data, base64);
+        processPhoto(base64).catch((error) => {
+          console.error("Failed to read image:", error);
+          setIsDetecting(false);
+          selectDataUrl(base64);
+        });
       };
       reader.readAsDataURL(file);
     },
-    [onImageSelect]
+    [processPhoto, selectDataUrl]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -37,19 +118,20 @@ export function ImageUpload({ onImageSelect, disabled }: ImageUploadProps) {
       "image/*": [".png", ".jpg", ".jpeg", ".webp"],
     },
     maxFiles: 1,
-    disabled,
+    disabled: disabled || isDetecting,
   });
 
   return (
-    <Card
-      {...getRootProps()}
-      className={`cursor-pointer transition-colors ${isDragActive ? "border-primary bg-primary/5" : "border-dashed"
-        } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+    <Card className={`transition-colors ${isDragActive ? "border-primary bg-primary/5" : "border-dashed"
+      } ${disabled ? "opacity-50" : ""}`}
     >
-      <CardContent className="flex items-center justify-center p-4 h-[95px]">
+      <CardContent
+        {...getRootProps()}
+        className={`flex items-center justify-center p-4 h-[95px] ${disabled ? "cursor-not-allowed" : "cursor-pointer"}`}
+      >
         <input {...getInputProps()} />
         {preview ? (
-          <div className="flex items-center gap-3">
+          <div className="flex items-center gap-3 w-full">
             <div className="relative w-14 h-14 flex-shrink-0">
               <Image
                 src={preview}
@@ -58,10 +140,39 @@ export function ImageUpload({ onImageSelect, disabled }: ImageUploadProps) {
                 className="object-cover rounded-md"
               />
             </div>
-            <div className="text-sm text-muted-foreground">
-              <p className="font-medium text-foreground">Image selected</p>
-              <p className="text-xs">Click or drop to replace</p>
+            <div className="text-sm text-muted-foreground flex-1 min-w-0">
+              {isDetecting ? (
+                <p className="font-medium text-foreground flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Finding face...
+                </p>
+              ) : (
+                <p className="font-medium text-foreground">Image selected</p>
+              )}
+              {warning ? (
+                <p className="text-xs text-amber-500 flex items-center gap-1 truncate">
+                  <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                  {warning}
+                </p>
+              ) : (
+                <p className="text-xs">Click or drop to replace</p>
+              )}
             </div>
+            {source && crop && !isDetecting && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setIsEditing(!isEditing);
+                }}
+                disabled={disabled}
+                title="Adjust crop"
+              >
+                <Crop className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         ) : (
           <div className="flex items-center gap-3 text-center">
@@ -80,6 +191,29 @@ export function ImageUpload({ onImageSelect, disabled }: ImageUploadProps) {
           </div>
         )}
       </CardContent>
+
+      {isEditing && source && crop && !disabled && (
+        <CardContent className="px-4 pb-4">
+          <FaceCropEditor
+            imageUrl={source.url}
+            imageWidth={source.image.naturalWidth}
+            imageHeight={source.image.naturalHeight}
+            faces={faces}
+            crop={crop}
+            onCropChange={setCrop}
+            onApply={() => {
+              applyCrop(source, crop);
+              setWarning(null);
+              setIsEditing(false);
+            }}
+            onUseFullPhoto={() => {
+              selectDataUrl(source.url);
+              setWarning(null);
+              setIsEditing(false);
+            }}
+          />
+        </CardContent>
+      )}
     </Card>
   );
 }
@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { decodeBase64Image } from "@/lib/adjust";
+import { Eraser, Loader2, Wand2 } from "lucide-react";
+
+// Brush diameter as a percentage of the image width
+const BRUSH_LIMITS = { MIN: 1, MAX: 15, DEFAULT: 5 };
+
+interface InpaintEditorProps {
+  imageBase64: string;
+  isWorking: boolean;
+  /** Cost of one touch-up, in USD */
+  cost: number;
+  onApply: (maskBase64: string, prompt: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Export painted strokes as a black PNG that is white wherever the brush went
+ */
+function exportMask(canvas: HTMLCanvasElement): string {
+  const mask = document.createElement("canvas");
+  mask.width = canvas.width;
+  mask.height = canvas.height;
+  const ctx = mask.getContext("2d")!;
+  ctx.drawImage(canvas, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  return mask.toDataURL("image/png").split(",")[1];
+}
+
+/**
+ * Brush a mask over the stylized image and describe what should be painted there
+ */
+export function InpaintEditor({ imageBase64, isWorking, cost, onApply, onCancel }: InpaintEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(BRUSH_LIMITS.DEFAULT);
+  const [hasMask, setHasMask] = useState(false);
+  const [prompt, setPrompt] = useState("");
+
+  // Match the mask to the image resolution
+  useEffect(() => {
+    let cancelled = false;
+    decodeBase64Image(imageBase64)
+      .then((bitmap) => {
+        if (!cancelled) setSize({ width: bitmap.width, height: bitmap.height });
+        bitmap.close();
+      })
+      .catch((err) => console.error("Failed to decode image:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageBase64]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d")!;
+    const from = lastPointRef.current ?? point;
+    ctx.strokeStyle = "#ef4444";
+    ctx.lineWidth = (brushSize / 100) * canvas.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isWorking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(e));
+    setHasMask(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleApply = () => {
+    if (!canvasRef.current || !hasMask || !prompt.trim()) return;
+    onApply(exportMask(canvasRef.current), prompt.trim());
+  };
+
+  return (
+    <Card className="p-3 gap-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Touch up character</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={handleClear}
+          disabled={!hasMask || isWorking}
+        >
+          <Eraser className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="flex justify-center rounded-md bg-black">
+        {size && (
+          <div
+            className="relative max-h-[260px] max-w-full"
+            style={{ aspectRatio: `${size.width} / ${size.height}`, height: 260 }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={`data:image/png;base64,${imageBase64}`}
+              alt="Character"
+              className="absolute inset-0 w-full h-full"
+            />
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Brush size</span>
+          <span className="font-mono">{brushSize}%</span>
+        </div>
+        <Slider
+          value={[brushSize]}
+          onValueChange={([v]) => setBrushSize(v)}
+          min={BRUSH_LIMITS.MIN}
+          max={BRUSH_LIMITS.MAX}
+          step={1}
+        />
+      </div>
+
+      <Input
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && handleApply()}
+        placeholder="What should be in the painted area, e.g. round glasses"
+        disabled={isWorking}
+      />
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={onCancel} disabled={isWorking}>
+          Back
+        </Button>
+        <Button
+          size="sm"
+          className="flex-1"
+          onClick={handleApply}
+          disabled={!hasMask || !prompt.trim() || isWorking}
+        >
+          {isWorking ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Wand2 className="h-3 w-3 mr-1" />
+          )}
+          Apply
+          <span className="ml-1 font-mono opacity-70">${cost.toFixed(3)}</span>
+        </Button>
+      </div>
+    </Card>
+  );
+}
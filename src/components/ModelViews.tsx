@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback } from "react";
+import { useDropzone } from "react-dropzone";
+import { MODEL_VIEW_ANGLES } from "@/lib/constants";
+import type { ModelView, ViewAngle } from "@/lib/types";
+import { Loader2, Upload, Wand2, X } from "lucide-react";
+
+const VIEW_LABELS: Record<ViewAngle, string> = {
+  side: "Side",
+  back: "Back",
+};
+
+interface ModelViewsProps {
+  frontImageBase64: string | null;
+  views: ModelView[];
+  pendingAngles: ViewAngle[];
+  onGenerate: (angle: ViewAngle) => void;
+  onUpload: (angle: ViewAngle, imageBase64: string) => void;
+  onRemove: (angle: ViewAngle) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Front, side and back views sent together to the 3D model.
+ * Extra views can be generated from the stylized front or uploaded.
+ */
+export function ModelViews({
+  frontImageBase64,
+  views,
+  pendingAngles,
+  onGenerate,
+  onUpload,
+  onRemove,
+  disabled,
+}: ModelViewsProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <div className="relative aspect-square rounded-md overflow-hidden bg-black border">
+          {frontImageBase64 ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={`data:image/png;base64,${frontImageBase64}`}
+              alt="Front view"
+              className="w-full h-full object-contain"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-[10px] text-muted-foreground p-1 text-center">
+              After Generate
+            </div>
+          )}
+        </div>
+        <p className="text-[10px] text-center text-muted-foreground">Front</p>
+      </div>
+
+      {MODEL_VIEW_ANGLES.map((angle) => (
+        <ViewSlot
+          key={angle}
+          angle={angle}
+          view={views.find((view) => view.angle === angle)}
+          isPending={pendingAngles.includes(angle)}
+          canGenerate={!!frontImageBase64}
+          onGenerate={() => onGenerate(angle)}
+          onUpload={(imageBase64) => onUpload(angle, imageBase64)}
+          onRemove={() => onRemove(angle)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface ViewSlotProps {
+  angle: ViewAngle;
+  view?: ModelView;
+  isPending: boolean;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  onUpload: (imageBase64: string) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+function ViewSlot({
+  angle,
+  view,
+  isPending,
+  canGenerate,
+  onGenerate,
+  onUpload,
+  onRemove,
+  disabled,
+}: ViewSlotProps) {
+  const onDrop = useCallback(
+    (acceptedFiles: File[]) => {
+      const file = acceptedFiles[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        const base64 = reader.result as string;
+        onUpload(base64.split(",")[1]);
+      };
+      reader.readAsDataURL(file);
+    },
+    [onUpload]
+  );
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "image/*": [".png", ".jpg", ".jpeg", ".webp"],
+    },
+    maxFiles: 1,
+    disabled: disabled || isPending,
+  });
+
+  return (
+    <div className="space-y-1">
+      <div
+        {...getRootProps()}
+        className={`group relative aspect-square rounded-md overflow-hidden cursor-pointer border transition-colors ${
+          isDragActive ? "border-primary bg-primary/5" : view ? "bg-black" : "border-dashed"
+        } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+        title={`Upload a ${VIEW_LABELS[angle].toLowerCase()} view`}
+      >
+        <input {...getInputProps()} />
+        {isPending ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : view ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={`data:image/png;base64,${view.imageBase64}`}
+            alt={`${VIEW_LABELS[angle]} view`}
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Upload className="h-4 w-4 text-muted-foreground" />
+          </div>
+        )}
+
+        {!disabled && !isPending && (
+          <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {canGenerate && (
+              <button
+                className="p-1 rounded-full bg-black/50 hover:bg-primary transition-colors"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onGenerate();
+                }}
+                title={`Generate ${VIEW_LABELS[angle].toLowerCase()} view`}
+              >
+                <Wand2 className="h-3 w-3 text-white" />
+              </button>
+            )}
+            {view && (
+              <button
+                className="p-1 rounded-full bg-black/50 hover:bg-red-500 transition-colors"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove();
+                }}
+                title="Remove view"
+              >
+                <X className="h-3 w-3 text-white" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <p className="text-[10px] text-center text-muted-foreground">
+        {VIEW_LABELS[angle]}
+        {view?.source === "uploaded" && " (uploaded)"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { createParallaxRenderer, type ParallaxRenderer } from "@/lib/parallax";
+import { Loader2 } from "lucide-react";
+
+interface ParallaxViewerProps {
+  imageBase64: string;
+  depthBase64: string;
+  /** Maximum shift as a fraction of the image width */
+  strength: number;
+}
+
+function decodeImage(base64: string): Promise<ImageBitmap> {
+  return fetch(`data:image/png;base64,${base64}`)
+    .then((response) => response.blob())
+    .then((blob) => createImageBitmap(blob));
+}
+
+/**
+ * Single image that tilts with the cursor using its depth map
+ */
+export function ParallaxViewer({ imageBase64, depthBase64, strength }: ParallaxViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<ParallaxRenderer | null>(null);
+  const pointerRef = useRef({ x: 0, y: 0 });
+  const strengthRef = useRef(strength);
+  // Depth map the renderer was last set up for, and the error if that failed
+  const [loaded, setLoaded] = useState<{ depthBase64: string; error?: string } | null>(null);
+  const isLoading = loaded?.depthBase64 !== depthBase64;
+  const error = isLoading ? null : loaded?.error;
+
+  const redraw = useCallback(() => {
+    const { x, y } = pointerRef.current;
+    rendererRef.current?.draw(x, y, strengthRef.current);
+  }, []);
+
+  useEffect(() => {
+    strengthRef.current = strength;
+    redraw();
+  }, [strength, redraw]);
+
+  // Upload the image and depth map to the GPU
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    let cancelled = false;
+
+    Promise.all([decodeImage(imageBase64), decodeImage(depthBase64)])
+      .then(([image, depth]) => {
+        if (cancelled) return;
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = container.clientWidth * dpr;
+        canvas.height = container.clientHeight * dpr;
+        rendererRef.current = createParallaxRenderer(canvas, image, depth);
+        redraw();
+        setLoaded({ depthBase64 });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to start parallax viewer:", err);
+        setLoaded({
+          depthBase64,
+          error: err instanceof Error ? err.message : "Failed to load parallax view",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, [imageBase64, depthBase64, redraw]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    pointerRef.current = {
+      x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      y: ((e.clientY - rect.top) / rect.height) * 2 - 1,
+    };
+    redraw();
+  };
+
+  const handleMouseLeave = () => {
+    pointerRef.current = { x: 0, y: 0 };
+    redraw();
+  };
+
+  return (
+    <Card className="aspect-square p-0 overflow-hidden">
+      <div
+        ref={containerRef}
+        className="w-full h-full bg-zinc-900 relative"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+      >
+        <canvas ref={canvasRef} className="w-full h-full" style={{ display: "block" }} />
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-zinc-900">
+            <Loader2 className="h-6 w-6 animate-spin text-white" />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center bg-zinc-900 text-sm text-destructive p-4 text-center">
+            {error}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { PromptAttributes, PromptAttributeSummary } from "@/lib/types";
+
+interface PromptComposerProps {
+  attributes: PromptAttributeSummary[];
+  value: PromptAttributes;
+  onChange: (value: PromptAttributes) => void;
+}
+
+/**
+ * Dropdown per character attribute; the server turns selections into prompt text
+ */
+export function PromptComposer({ attributes, value, onChange }: PromptComposerProps) {
+  const handleSelect = (key: PromptAttributeSummary["key"], optionId: string) => {
+    const next = { ...value };
+    if (optionId) {
+      next[key] = optionId;
+    } else {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {attributes.map((attribute) => (
+        <label key={attribute.key} className="space-y-1 text-xs text-muted-foreground">
+          <span>{attribute.label}</span>
+          <select
+            value={value[attribute.key] ?? ""}
+            onChange={(e) => handleSelect(attribute.key, e.target.value)}
+            className="w-full h-8 px-2 text-sm text-foreground rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value="">Any</option>
+            {attribute.options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -9,8 +9,9 @@ import {
   clearAllRenders,
   MAX_RENDERS,
   type SavedRender,
+  type RestyleSource,
 } from "@/lib/storage";
-import { Box, MousePointer2, X, ChevronDown, ChevronUp, Info } from "lucide-react";
+import { Box, Layers, MousePointer2, X, ChevronDown, ChevronUp, Info, RotateCcw, Pencil, GitBranch, Palette, AudioLines } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -20,10 +21,44 @@ import {
 
 interface RenderHistoryProps {
   onLoadRender?: (render: SavedRender) => void;
+  onRegenerate?: (render: SavedRender) => void;
+  onEdit?: (render: SavedRender) => void;
+  onRestyle?: (render: SavedRender, source: RestyleSource) => void;
   refreshTrigger?: number;
 }
 
-export function RenderHistory({ onLoadRender, refreshTrigger }: RenderHistoryProps) {
+interface LineageEntry {
+  render: SavedRender;
+  depth: number;
+}
+
+/**
+ * Oldest saved ancestor of a render; lineage stops where a parent was pruned
+ */
+function findLineageRoot(renders: SavedRender[], render: SavedRender): SavedRender {
+  let root = render;
+  let parent = renders.find((r) => r.id === root.parentId);
+  while (parent) {
+    root = parent;
+    parent = renders.find((r) => r.id === root.parentId);
+  }
+  return root;
+}
+
+/**
+ * Depth-first list of a render and its saved descendants, oldest first
+ */
+function flattenLineage(renders: SavedRender[], root: SavedRender, depth = 0): LineageEntry[] {
+  const children = renders
+    .filter((r) => r.parentId === root.id)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return [
+    { render: root, depth },
+    ...children.flatMap((child) => flattenLineage(renders, child, depth + 1)),
+  ];
+}
+
+export function RenderHistory({ onLoadRender, onRegenerate, onEdit, onRestyle, refreshTrigger }: RenderHistoryProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [renders, setRenders] = useState<SavedRender[]>([]);
@@ -62,6 +97,18 @@ export function RenderHistory({ onLoadRender, refreshTrigger }: RenderHistoryPro
     }
   };
 
+  const handleRegenerate = (render: SavedRender, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSelectedId(null);
+    onRegenerate?.(render);
+  };
+
+  const handleEdit = (render: SavedRender, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSelectedId(null);
+    onEdit?.(render);
+  };
+
   const handleSelect = (render: SavedRender) => {
     setSelectedId(render.id);
     onLoadRender?.(render);
@@ -72,6 +119,10 @@ export function RenderHistory({ onLoadRender, refreshTrigger }: RenderHistoryPro
   }
 
   const displayedRenders = isExpanded ? renders : renders.slice(0, 4);
+  const selectedRender = renders.find((r) => r.id === selectedId);
+  const lineage = selectedRender
+    ? flattenLineage(renders, findLineageRoot(renders, selectedRender))
+    : [];
 
   return (
     <Card className="p-3">
@@ -132,9 +183,82 @@ export function RenderHistory({ onLoadRender, refreshTrigger }: RenderHistoryPro
             isSelected={selectedId === render.id}
             onSelect={() => handleSelect(render)}
             onDelete={(e) => handleDelete(render.id, e)}
+            onRegenerate={
+              onRegenerate && render.mode === "3d-model" && render.seed !== undefined
+                ? (e) => handleRegenerate(render, e)
+                : undefined
+            }
+            onEdit={onEdit ? (e) => handleEdit(render, e) : undefined}
+            hasLineage={
+              renders.some((r) => r.id === render.parentId) ||
+              renders.some((r) => r.parentId === render.id)
+            }
           />
         ))}
       </div>
+
+      {selectedRender && (onRestyle || lineage.length > 1) && (
+        <div className="mt-3 pt-3 border-t space-y-2">
+          {onRestyle && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground flex items-center gap-1">
+                <Palette className="h-3 w-3" />
+                Restyle from
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onRestyle(selectedRender, "processed")}
+                  title="Apply a new style to this render's character"
+                >
+                  Character
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onRestyle(selectedRender, "original")}
+                  title="Apply a new style to the photo this render started from"
+                >
+                  Photo
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Lineage tree; click a version to load it */}
+          {lineage.length > 1 && (
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                <GitBranch className="h-3 w-3" />
+                Versions
+              </span>
+              {lineage.map(({ render, depth }) => (
+                <button
+                  key={render.id}
+                  type="button"
+                  className={`w-full flex items-center gap-2 rounded px-1 py-0.5 text-left text-xs transition-colors ${
+                    render.id === selectedId ? "bg-muted text-foreground" : "text-muted-foreground hover:bg-muted/50"
+                  }`}
+                  style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                  onClick={() => handleSelect(render)}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={render.previewThumbnail} alt="" className="h-6 w-6 rounded object-cover" />
+                  <span className="truncate flex-1">
+                    {render.styleId ?? "pixar"} · {render.mode}
+                    {render.restyleSource &&
+                      ` · from ${render.restyleSource === "processed" ? "character" : "photo"}`}
+                  </span>
+                  <span className="shrink-0">{new Date(render.createdAt).toLocaleTimeString()}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </Card>
   );
 }
@@ -144,9 +268,12 @@ interface RenderCardProps {
   isSelected: boolean;
   onSelect: () => void;
   onDelete: (e: React.MouseEvent) => void;
+  onRegenerate?: (e: React.MouseEvent) => void;
+  onEdit?: (e: React.MouseEvent) => void;
+  hasLineage?: boolean;
 }
 
-function RenderCard({ render, isSelected, onSelect, onDelete }: RenderCardProps) {
+function RenderCard({ render, isSelected, onSelect, onDelete, onRegenerate, onEdit, hasLineage }: RenderCardProps) {
   const [showActions, setShowActions] = useState(false);
 
   return (
@@ -166,13 +293,35 @@ function RenderCard({ render, isSelected, onSelect, onDelete }: RenderCardProps)
         className="w-full h-full object-cover"
       />
 
-      {/* Mode badge */}
-      <div className="absolute top-1 left-1">
+      {/* Mode badge, plus a branch when other versions are saved */}
+      <div className="absolute top-1 left-1 flex gap-0.5">
         {render.mode === "3d-model" ? (
           <Box className="h-3 w-3 text-white drop-shadow-md" />
+        ) : render.mode === "parallax" ? (
+          <Layers className="h-3 w-3 text-white drop-shadow-md" />
+        ) : render.mode === "talking" ? (
+          <AudioLines className="h-3 w-3 text-white drop-shadow-md" />
         ) : (
           <MousePointer2 className="h-3 w-3 text-white drop-shadow-md" />
         )}
+        {hasLineage && <GitBranch className="h-3 w-3 text-white drop-shadow-md" />}
+      </div>
+
+      <div className="absolute bottom-1 left-1 flex gap-0.5">
+        {/* Unstyled renders are labelled with how the photo was prepared */}
+        {render.preprocessMode && render.preprocessMode !== "stylize" && (
+          <span className="px-1 rounded bg-black/50 text-[9px] text-white">
+            {render.preprocessMode === "cleanup" ? "Cleaned" : "Original"}
+          </span>
+        )}
+        {!!render.rejectedCandidates?.length && (
+          <span
+            className="px-1 rounded bg-black/50 text-[9px] text-white"
+            title={`${render.rejectedCandidates.length} rejected candidates saved`}
+          >
+            +{render.rejectedCandidates.length}
+          </span>
+        )}
       </div>
 
       {/* Delete button */}
@@ -184,6 +333,28 @@ function RenderCard({ render, isSelected, onSelect, onDelete }: RenderCardProps)
           <X className="h-3 w-3 text-white" />
         </button>
       )}
+
+      {/* Edit the style and attributes, then re-run */}
+      {showActions && onEdit && (
+        <button
+          className="absolute top-1 right-7 p-1 rounded-full bg-black/50 hover:bg-primary transition-colors"
+          onClick={onEdit}
+          title="Edit style and re-run"
+        >
+          <Pencil className="h-3 w-3 text-white" />
+        </button>
+      )}
+
+      {/* Regenerate with the same seed */}
+      {showActions && onRegenerate && (
+        <button
+          className="absolute bottom-1 right-1 p-1 rounded-full bg-black/50 hover:bg-primary transition-colors"
+          onClick={onRegenerate}
+          title={`Regenerate with seed ${render.seed}`}
+        >
+          <RotateCcw className="h-3 w-3 text-white" />
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+"use client";
+
+import type { StylePresetId, StylePresetSummary } from "@/lib/types";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface StylePickerProps {
+  presets: StylePresetSummary[];
+  value: StylePresetId;
+  onChange: (id: StylePresetId) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Row of style preset thumbnails
+ */
+export function StylePicker({ presets, value, onChange, disabled }: StylePickerProps) {
+  if (presets.length === 0) {
+    return (
+      <div className="grid grid-cols-6 gap-2">
+        {Array.from({ length: 6 }, (_, i) => (
+          <Skeleton key={i} className="aspect-square rounded-md" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-6 gap-2">
+      {presets.map((preset) => (
+        <button
+          key={preset.id}
+          type="button"
+          className={`group space-y-1 text-center ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+          onClick={() => onChange(preset.id)}
+          disabled={disabled}
+          title={preset.description}
+        >
+          <div
+            className={`aspect-square rounded-md overflow-hidden transition-all ${
+              value === preset.id
+                ? "ring-2 ring-primary"
+                : "group-hover:ring-1 group-hover:ring-muted-foreground"
+            }`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={preset.thumbnail} alt={preset.name} className="w-full h-full object-cover" />
+          </div>
+          <p
+            className={`text-[10px] truncate ${
+              value === preset.id ? "text-foreground font-medium" : "text-muted-foreground"
+            }`}
+          >
+            {preset.name}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
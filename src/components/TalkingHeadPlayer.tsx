@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { VISEME_IDS } from "@/lib/constants";
+import { createLipSync } from "@/lib/lipsync";
+import type { GeneratedImage, VisemeId } from "@/lib/types";
+import { FileAudio, Pause, Play } from "lucide-react";
+
+interface TalkingHeadPlayerProps {
+  /** Lip-sync frames, indexed in VISEME_IDS order */
+  images: GeneratedImage[];
+  /** Draw frames over a checkerboard so their alpha channel is visible */
+  transparent?: boolean;
+}
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: "#3f3f46",
+  backgroundImage: "conic-gradient(#52525b 25%, transparent 0 50%, #52525b 0 75%, transparent 0)",
+  backgroundSize: "24px 24px",
+};
+
+/**
+ * Plays a local audio file and swaps mouth frames to match it
+ */
+export function TalkingHeadPlayer({ images, transparent = false }: TalkingHeadPlayerProps) {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  // Data URL per viseme; missing frames fall back to the closed mouth
+  const sources = useMemo(() => {
+    const map = new Map<VisemeId, string>();
+    images.forEach((image, i) => {
+      const viseme = VISEME_IDS[image.index ?? i];
+      if (viseme) map.set(viseme, `data:${image.mimeType ?? "image/png"};base64,${image.imageBase64}`);
+    });
+    return map;
+  }, [images]);
+  const restSource = sources.get("closed") ?? sources.values().next().value;
+
+  // A fresh element per file: an element can only be wired to one audio graph
+  useEffect(() => {
+    if (!audioFile) return;
+
+    const url = URL.createObjectURL(audioFile);
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    const lipSync = createLipSync(audio, (viseme) => {
+      const source = sources.get(viseme) ?? restSource;
+      if (imgRef.current && source) imgRef.current.src = source;
+    });
+    const handlePlay = () => setPlaying(true);
+    const handleStop = () => setPlaying(false);
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handleStop);
+    audio.addEventListener("ended", handleStop);
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handleStop);
+      audio.removeEventListener("ended", handleStop);
+      lipSync.dispose();
+      URL.revokeObjectURL(url);
+      audioRef.current = null;
+    };
+  }, [audioFile, sources, restSource]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPlaying(false);
+      setAudioFile(file);
+    }
+    e.target.value = "";
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((err) => console.error("Playback failed:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  return (
+    <Card className="aspect-square p-0 overflow-hidden relative">
+      <div
+        className="w-full h-full bg-zinc-900"
+        style={transparent ? CHECKERBOARD_STYLE : undefined}
+      >
+        {restSource && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img ref={imgRef} src={restSource} alt="Talking head" className="w-full h-full object-contain" />
+        )}
+      </div>
+
+      <div className="absolute bottom-2 left-2 right-2 flex items-center gap-2 rounded-md bg-black/60 p-1.5">
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => inputRef.current?.click()}
+        >
+          <FileAudio className="h-3 w-3 mr-1" />
+          {audioFile ? "Change audio" : "Choose audio"}
+        </Button>
+        <span className="flex-1 truncate text-xs text-white/80">
+          {audioFile?.name ?? "Pick a local audio file to lip-sync"}
+        </span>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={togglePlayback}
+          disabled={!audioFile}
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+        </Button>
+      </div>
+    </Card>
+  );
+}
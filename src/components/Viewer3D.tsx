@@ -1,16 +1,205 @@
 "use client";
 
-import { useEffect, useRef, useMemo } from "react";
+import { useCallback, useEffect, useRef, useMemo } from "react";
 import { Card } from "@/components/ui/card";
-import type { GeneratedImage } from "@/lib/types";
+import {
+  anglesAtPosition,
+  cellAtPosition,
+  cellCoordinates,
+  countLayoutCells,
+} from "@/lib/constants";
+import type {
+  ExpressionLayerId,
+  ExpressionTrigger,
+  FrameLayout,
+  GeneratedImage,
+  GridAngles,
+  GridType,
+  Step,
+} from "@/lib/types";
+
+// Time between blinks is randomized so it does not look mechanical
+const BLINK_INTERVAL_MS = { MIN: 2500, MAX: 5500 };
+const BLINK_DURATION_MS = 150;
+
+/**
+ * Angles of the neutral cells and of the refinement frames stored after the
+ * base frames, so the cursor can pick whichever frame is closest in angle
+ */
+export interface FrameRefinement {
+  angles: GridAngles;
+  gridType: GridType;
+  cellSteps: Step[];
+  refinedSteps: Step[];
+}
 
 interface Viewer3DProps {
   images: GeneratedImage[];
-  xSteps: number;
-  ySteps: number;
+  /** How frame indices map to cursor positions */
+  layout: FrameLayout;
+  /** In-between frames added by refinement, looked up by nearest angle */
+  refinement?: FrameRefinement;
+  /** Show the nearest generated frame for cells not generated yet */
+  fallbackToNearest?: boolean;
+  /** Draw frames over a checkerboard so their alpha channel is visible */
+  transparent?: boolean;
+  /** Expression layers stored after the neutral grid, in frame index order */
+  expressions?: ExpressionLayerId[];
+  /** How the viewer switches between non-blink expressions */
+  expressionTrigger?: ExpressionTrigger;
+}
+
+interface ViewerState {
+  images: (ImageBitmap | undefined)[];
+  ctx: CanvasRenderingContext2D | null;
+  currentIndex: number; // Layout cell under the cursor
+  refinedIndex: number; // Refinement frame shown instead of the neutral cell, or -1
+  layout: FrameLayout;
+  refinement: FrameRefinement | undefined;
+  expressionCount: number;
+  fallbackToNearest: boolean;
+  transparent: boolean;
+  expressionLayer: number; // 0 for the neutral grid
+  blinking: boolean;
+  blinkLayer: number; // 0 when there is no blink layer
+  ready: boolean;
+  loadedCount: number;
+}
+
+/**
+ * Pick the frame for a layout cell, optionally falling back to the nearest loaded one
+ */
+function resolveFrame(
+  images: (ImageBitmap | undefined)[],
+  index: number,
+  layout: FrameLayout,
+  fallbackToNearest: boolean
+): ImageBitmap | undefined {
+  if (images[index] || !fallbackToNearest) return images[index];
+
+  const { x, y } = cellCoordinates(layout, index);
+  let nearest: ImageBitmap | undefined;
+  let nearestDistance = Infinity;
+
+  // Neutral layer only; expression layers follow it in the array
+  images.slice(0, countLayoutCells(layout)).forEach((img, i) => {
+    if (!img) return;
+    const cell = cellCoordinates(layout, i);
+    const distance = (cell.x - x) ** 2 + (cell.y - y) ** 2;
+    if (distance < nearestDistance) {
+      nearest = img;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+}
+
+/**
+ * Refinement frame closer in angle to the cursor than the neutral cell under
+ * it, or -1 when the cell's own frame is the closest
+ */
+function nearestRefinedFrame(state: ViewerState, x: number, y: number, cell: number): number {
+  const { refinement, layout } = state;
+  if (!refinement) return -1;
+
+  const target = anglesAtPosition(x, y, layout, refinement.gridType, refinement.angles);
+  const distance = (step: Step) =>
+    (step.rotate_yaw - target.rotate_yaw) ** 2 +
+    (step.rotate_pitch - target.rotate_pitch) ** 2 +
+    (step.pupil_x - target.pupil_x) ** 2 +
+    (step.pupil_y - target.pupil_y) ** 2;
+
+  // Refinement frames follow the neutral grid and every expression layer
+  const first = countLayoutCells(layout) * (state.expressionCount + 1);
+  let nearest = -1;
+  let nearestDistance = refinement.cellSteps[cell] ? distance(refinement.cellSteps[cell]) : Infinity;
+  refinement.refinedSteps.forEach((step, k) => {
+    if (!state.images[first + k]) return;
+    const d = distance(step);
+    if (d < nearestDistance) {
+      nearest = first + k;
+      nearestDistance = d;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Frame for the current cell and expression, using the neutral one when the
+ * expression frame is missing
+ */
+function resolveCurrentFrame(state: ViewerState): ImageBitmap | undefined {
+  const cells = countLayoutCells(state.layout);
+  const layer = state.blinking ? state.blinkLayer : state.expressionLayer;
+  const expressionFrame = layer > 0 ? state.images[layer * cells + state.currentIndex] : undefined;
+  const refinedFrame = state.refinedIndex >= 0 ? state.images[state.refinedIndex] : undefined;
+  return (
+    expressionFrame ??
+    refinedFrame ??
+    resolveFrame(state.images, state.currentIndex, state.layout, state.fallbackToNearest)
+  );
+}
+
+/**
+ * Fill with the usual transparency checkerboard
+ */
+function drawCheckerboard(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const size = 12;
+  ctx.fillStyle = "#3f3f46";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "#52525b";
+  for (let y = 0; y < height; y += size) {
+    for (let x = (y / size) % 2 === 0 ? 0 : size; x < width; x += size * 2) {
+      ctx.fillRect(x, y, size, size);
+    }
+  }
 }
 
-export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
+/**
+ * Draw a grid frame, or a hatched placeholder where the frame is missing
+ */
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  img: ImageBitmap | undefined,
+  width: number,
+  height: number,
+  transparent = false
+) {
+  if (img) {
+    if (transparent) {
+      drawCheckerboard(ctx, width, height);
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    return;
+  }
+
+  ctx.fillStyle = "#18181b";
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = "#27272a";
+  ctx.lineWidth = 2;
+  for (let d = -height; d < width; d += 16) {
+    ctx.beginPath();
+    ctx.moveTo(d, height);
+    ctx.lineTo(d + height, 0);
+    ctx.stroke();
+  }
+  ctx.fillStyle = "#a1a1aa";
+  ctx.font = "14px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("Frame missing", width / 2, height / 2);
+}
+
+export function Viewer3D({
+  images: rawImages,
+  layout,
+  refinement,
+  fallbackToNearest = false,
+  transparent = false,
+  expressions = [],
+  expressionTrigger = "click",
+}: Viewer3DProps) {
   const images = useMemo(
     () => [...rawImages].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
     [rawImages]
@@ -19,21 +208,130 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const loadingRef = useRef<HTMLDivElement>(null);
-  const stateRef = useRef({
-    images: [] as ImageBitmap[],
-    ctx: null as CanvasRenderingContext2D | null,
+  // Decoded frames by grid index, so progressive updates only decode new frames
+  const bitmapCacheRef = useRef(new Map<number, { source: string; bitmap: ImageBitmap }>());
+  const stateRef = useRef<ViewerState>({
+    // Sparse, keyed by grid index so failed frames leave gaps
+    images: [],
+    ctx: null,
     currentIndex: -1,
-    xSteps,
-    ySteps,
+    refinedIndex: -1,
+    layout,
+    refinement,
+    expressionCount: expressions.length,
+    fallbackToNearest,
+    transparent,
+    expressionLayer: 0,
+    blinking: false,
+    blinkLayer: 0,
     ready: false,
     loadedCount: 0,
   });
 
-  // Update steps in ref when props change
+  // Layer numbers (1-based, after the neutral grid) that click or hover switches to
+  const expressionKey = expressions.join(",");
+  const switchableLayers = useMemo(
+    () =>
+      expressionKey
+        .split(",")
+        .map((id, i) => (id && id !== "blink" ? i + 1 : 0))
+        .filter(Boolean),
+    [expressionKey]
+  );
+  const blinkLayer = expressions.indexOf("blink") + 1;
+
+  const redraw = useCallback(() => {
+    const state = stateRef.current;
+    const container = containerRef.current;
+    if (!state.ready || !state.ctx || !container) return;
+    drawFrame(
+      state.ctx,
+      resolveCurrentFrame(state),
+      container.clientWidth,
+      container.clientHeight,
+      state.transparent
+    );
+  }, []);
+
+  // Update the layout in ref when props change
+  useEffect(() => {
+    stateRef.current.layout = layout;
+    stateRef.current.refinement = refinement;
+    stateRef.current.expressionCount = expressions.length;
+    stateRef.current.fallbackToNearest = fallbackToNearest;
+    stateRef.current.transparent = transparent;
+    // Picked up again on the next mouse move
+    if (!refinement) stateRef.current.refinedIndex = -1;
+
+    // Swap a borrowed neighbour frame for the gap placeholder once generation ends
+    redraw();
+  }, [layout, refinement, expressions.length, fallbackToNearest, transparent, redraw]);
+
+  // Reset to the neutral face when the set of layers changes
+  useEffect(() => {
+    stateRef.current.expressionLayer = 0;
+    stateRef.current.blinkLayer = blinkLayer;
+    redraw();
+  }, [blinkLayer, switchableLayers, redraw]);
+
+  // Blink every few seconds when there is a blink layer
   useEffect(() => {
-    stateRef.current.xSteps = xSteps;
-    stateRef.current.ySteps = ySteps;
-  }, [xSteps, ySteps]);
+    if (!blinkLayer) return;
+
+    const state = stateRef.current;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      const wait =
+        BLINK_INTERVAL_MS.MIN + Math.random() * (BLINK_INTERVAL_MS.MAX - BLINK_INTERVAL_MS.MIN);
+      timer = setTimeout(() => {
+        state.blinking = true;
+        redraw();
+        timer = setTimeout(() => {
+          state.blinking = false;
+          redraw();
+          schedule();
+        }, BLINK_DURATION_MS);
+      }, wait);
+    };
+    schedule();
+
+    return () => {
+      clearTimeout(timer);
+      state.blinking = false;
+    };
+  }, [blinkLayer, redraw]);
+
+  // Switch expression on click, or while hovered
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || switchableLayers.length === 0) return;
+
+    const cycle = [0, ...switchableLayers];
+    let hoverCount = 0;
+    const setLayer = (layer: number) => {
+      stateRef.current.expressionLayer = layer;
+      redraw();
+    };
+
+    const handleClick = () => {
+      const current = cycle.indexOf(stateRef.current.expressionLayer);
+      setLayer(cycle[(current + 1) % cycle.length]);
+    };
+    const handleEnter = () => setLayer(switchableLayers[hoverCount++ % switchableLayers.length]);
+    const handleLeave = () => setLayer(0);
+
+    if (expressionTrigger === "hover") {
+      container.addEventListener("mouseenter", handleEnter);
+      container.addEventListener("mouseleave", handleLeave);
+    } else {
+      container.addEventListener("click", handleClick);
+    }
+    return () => {
+      container.removeEventListener("click", handleClick);
+      container.removeEventListener("mouseenter", handleEnter);
+      container.removeEventListener("mouseleave", handleLeave);
+    };
+  }, [switchableLayers, expressionTrigger, redraw]);
 
   // Load images when they change
   useEffect(() => {
@@ -41,28 +339,55 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
 
     let cancelled = false;
     const state = stateRef.current;
-    state.ready = false;
-    state.loadedCount = 0;
+    const cache = bitmapCacheRef.current;
 
-    // Show loading indicator
-    if (loadingRef.current) {
+    // Show loading indicator until the first frames are decoded
+    if (!state.ready && loadingRef.current) {
       loadingRef.current.style.display = "flex";
       loadingRef.current.textContent = "Loading...";
     }
 
     const loadImages = async () => {
-      const bitmapPromises = images.map(async (image) => {
-        const blob = await fetch(`data:image/png;base64,${image.imageBase64}`).then(
+      const bitmapPromises = images.map(async (image, i) => {
+        const index = image.index ?? i;
+        const cached = cache.get(index);
+        if (cached && cached.source === image.imageBase64) {
+          return [index, cached.bitmap] as const;
+        }
+
+        const mimeType = image.mimeType ?? "image/png";
+        const blob = await fetch(`data:${mimeType};base64,${image.imageBase64}`).then(
           (r) => r.blob()
         );
-        return createImageBitmap(blob);
+        const bitmap = await createImageBitmap(blob);
+        // A newer load owns the cache now and may be drawing what it holds
+        if (cancelled) {
+          bitmap.close();
+          return [index, undefined] as const;
+        }
+        cache.get(index)?.bitmap.close();
+        cache.set(index, { source: image.imageBase64, bitmap });
+        return [index, bitmap] as const;
       });
 
-      const loadedBitmaps = await Promise.all(bitmapPromises);
+      const bitmaps = await Promise.all(bitmapPromises);
       if (cancelled) return;
 
+      const loadedBitmaps: (ImageBitmap | undefined)[] = [];
+      for (const [index, bitmap] of bitmaps) {
+        loadedBitmaps[index] = bitmap;
+      }
+
+      // Release frames that are no longer part of the grid
+      for (const [index, entry] of cache) {
+        if (!loadedBitmaps[index]) {
+          entry.bitmap.close();
+          cache.delete(index);
+        }
+      }
+
       state.images = loadedBitmaps;
-      state.loadedCount = loadedBitmaps.length;
+      state.loadedCount = bitmaps.length;
 
       if (canvasRef.current && containerRef.current) {
         const canvas = canvasRef.current;
@@ -79,12 +404,17 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
           ctx.imageSmoothingQuality = "high";
           state.ctx = ctx;
 
-          const centerIdx = Math.floor(loadedBitmaps.length / 2);
-          const img = loadedBitmaps[centerIdx];
-          if (img) {
-            ctx.drawImage(img, 0, 0, container.clientWidth, container.clientHeight);
-            state.currentIndex = centerIdx;
+          // Keep the cursor's cell when frames stream in, otherwise start at the center
+          if (state.currentIndex < 0) {
+            state.currentIndex = cellAtPosition(0.5, 0.5, state.layout);
           }
+          drawFrame(
+            ctx,
+            resolveCurrentFrame(state),
+            container.clientWidth,
+            container.clientHeight,
+            state.transparent
+          );
         }
       }
 
@@ -121,10 +451,13 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
         ctx.scale(dpr, dpr);
         state.ctx = ctx;
 
-        const currentImg = state.images[state.currentIndex];
-        if (currentImg) {
-          ctx.drawImage(currentImg, 0, 0, container.clientWidth, container.clientHeight);
-        }
+        drawFrame(
+          ctx,
+          resolveCurrentFrame(state),
+          container.clientWidth,
+          container.clientHeight,
+          state.transparent
+        );
       }
     };
 
@@ -139,34 +472,20 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
 
     const handleMouseMove = (e: MouseEvent) => {
       const state = stateRef.current;
-      if (!state.ready || state.images.length === 0 || !state.ctx) return;
+      if (!state.ready || state.loadedCount === 0 || !state.ctx) return;
 
       const rect = container.getBoundingClientRect();
       const x = (e.clientX - rect.left) / rect.width;
       const y = (e.clientY - rect.top) / rect.height;
 
-      const xIdx = Math.min(
-        Math.max(0, Math.floor(x * state.xSteps)),
-        state.xSteps - 1
-      );
-      const yIdx = Math.min(
-        Math.max(0, Math.floor(y * state.ySteps)),
-        state.ySteps - 1
-      );
-      const imageIndex = yIdx * state.xSteps + xIdx;
-
-      if (
-        imageIndex === state.currentIndex ||
-        imageIndex < 0 ||
-        imageIndex >= state.images.length
-      )
-        return;
+      const imageIndex = cellAtPosition(x, y, state.layout);
+      const refinedIndex = nearestRefinedFrame(state, x, y, imageIndex);
+
+      if (imageIndex === state.currentIndex && refinedIndex === state.refinedIndex) return;
       state.currentIndex = imageIndex;
+      state.refinedIndex = refinedIndex;
 
-      const img = state.images[imageIndex];
-      if (img) {
-        state.ctx.drawImage(img, 0, 0, rect.width, rect.height);
-      }
+      drawFrame(state.ctx, resolveCurrentFrame(state), rect.width, rect.height, state.transparent);
     };
 
     container.addEventListener("mousemove", handleMouseMove, { passive: true });
@@ -175,7 +494,17 @@ export function Viewer3D({ images: rawImages, xSteps, ySteps }: Viewer3DProps) {
 
   return (
     <Card className="aspect-square p-0 overflow-hidden">
-      <div ref={containerRef} className="w-full h-full bg-zinc-900 relative">
+      <div
+        ref={containerRef}
+        className={`w-full h-full bg-zinc-900 relative ${
+          switchableLayers.length > 0 && expressionTrigger === "click" ? "cursor-pointer" : ""
+        }`}
+        title={
+          switchableLayers.length > 0 && expressionTrigger === "click"
+            ? "Click to change expression"
+            : undefined
+        }
+      >
         <canvas
           ref={canvasRef}
           className="w-full h-full"
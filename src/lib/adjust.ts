@@ -0,0 +1,74 @@
+import type { ImageAdjustments } from "./types";
+
+/**
+ * Client-side canvas editing of the prepared image before it is sent for
+ * frame or 3D generation.
+ */
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  brightness: 100,
+  contrast: 100,
+  background: "#000000", // Matches the black background the models expect
+};
+
+/**
+ * Whether the adjustments leave the image unchanged
+ */
+export function isDefaultAdjustments(adjustments: ImageAdjustments): boolean {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(
+    (key) => adjustments[key] === DEFAULT_ADJUSTMENTS[key]
+  );
+}
+
+/**
+ * Draw an image with adjustments onto a canvas context of the given size
+ */
+export function drawAdjusted(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments
+) {
+  const { scale, offsetX, offsetY, rotation, brightness, contrast, background } = adjustments;
+
+  ctx.save();
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.translate(width / 2 + offsetX * width, height / 2 + offsetY * height);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.filter = `brightness(${brightness}%) contrast(${contrast}%)`;
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+  ctx.restore();
+}
+
+/**
+ * Decode a base64 PNG into a bitmap
+ */
+export async function decodeBase64Image(imageBase64: string): Promise<ImageBitmap> {
+  const blob = await fetch(`data:image/png;base64,${imageBase64}`).then((r) => r.blob());
+  return createImageBitmap(blob);
+}
+
+/**
+ * Render the adjusted image at its original resolution, as base64 PNG
+ */
+export async function applyAdjustments(
+  imageBase64: string,
+  adjustments: ImageAdjustments
+): Promise<string> {
+  const img = await decodeBase64Image(imageBase64);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+
+  drawAdjusted(canvas.getContext("2d")!, img, img.width, img.height, adjustments);
+  img.close();
+  return canvas.toDataURL("image/png").split(",")[1];
+}
@@ -1,4 +1,20 @@
-import type { Step, GenerateStepsOptions, GenerateStepsResult } from "./types";
+import type {
+  Step,
+  GenerateStepsOptions,
+  GenerateStepsResult,
+  FrameOrder,
+  ModelSamplingParams,
+  ViewAngle,
+  PreprocessMode,
+  ExpressionLayerId,
+  ExpressionParams,
+  VisemeId,
+  AngleRange,
+  GridAngles,
+  FrameLayout,
+  GridType,
+  FramePair,
+} from "./types";
 
 /**
  * Default configuration values
@@ -6,19 +22,156 @@ import type { Step, GenerateStepsOptions, GenerateStepsResult } from "./types";
 export const DEFAULTS = {
   X_STEPS: 5,
   Y_STEPS: 5,
+  GRID_TYPE: "head",
+  EYE_X_STEPS: 5,
+  EYE_Y_STEPS: 3,
+  LAYOUT: "grid",
+  RINGS: 2,
+  DIRECTIONS: 8,
   ROTATE_BOUND: 20,
   PUPIL_BOUND: 15,
   CROP_FACTOR: 1.7,
   OUTPUT_QUALITY: 100,
   TEXTURE_SIZE: 1024,
   MESH_QUALITY: 0.9,
+  FRAME_ORDER: "center-out",
+  STYLE_ID: "pixar",
+  PREPROCESS_MODE: "stylize",
+  PARALLAX_STRENGTH: 0.06,
+  PREPROCESS_CANDIDATES: 1,
 } as const;
 
+/**
+ * Largest eye grid nested in each head cell of an eyes grid
+ */
+export const MAX_EYE_STEPS = 10;
+
+/**
+ * Accepted ring and direction counts for polar layouts
+ */
+export const POLAR_LIMITS = {
+  MAX_RINGS: 5,
+  MIN_DIRECTIONS: 4,
+  MAX_DIRECTIONS: 16,
+} as const;
+
+/**
+ * Most stylization candidates generated for one pick
+ */
+export const MAX_PREPROCESS_CANDIDATES = 4;
+
+/**
+ * Symmetric, evenly spaced grid angles matching ROTATE_BOUND and PUPIL_BOUND
+ */
+export const DEFAULT_GRID_ANGLES: GridAngles = {
+  yaw: { min: -DEFAULTS.ROTATE_BOUND, max: DEFAULTS.ROTATE_BOUND },
+  pitch: { min: -DEFAULTS.ROTATE_BOUND, max: DEFAULTS.ROTATE_BOUND },
+  pupilX: { min: -DEFAULTS.PUPIL_BOUND, max: DEFAULTS.PUPIL_BOUND },
+  pupilY: { min: -DEFAULTS.PUPIL_BOUND, max: DEFAULTS.PUPIL_BOUND },
+  headCurve: 1,
+  pupilCurve: 1,
+};
+
+/**
+ * Accepted grid angle settings; the stream route rejects values beyond these
+ */
+export const GRID_ANGLE_LIMITS = {
+  MAX_ROTATE: 20,
+  MAX_PUPIL: 15,
+  MIN_CURVE: 1,
+  MAX_CURVE: 3,
+} as const;
+
+/**
+ * Expression editor settings for each extra frame layer
+ */
+export const EXPRESSION_LAYERS: Record<
+  ExpressionLayerId,
+  { label: string; description: string; params: ExpressionParams }
+> = {
+  blink: { label: "Blink", description: "Eyes closed, played every few seconds", params: { blink: -20 } },
+  wink: { label: "Wink", description: "Right eye closed", params: { wink: 25 } },
+  smile: { label: "Smile", description: "Broad smile", params: { smile: 1.2, eee: 5 } },
+  surprised: { label: "Surprised", description: "Raised eyebrows and open mouth", params: { eyebrow: 15, aaa: 60 } },
+};
+
+export const EXPRESSION_LAYER_IDS = Object.keys(EXPRESSION_LAYERS) as ExpressionLayerId[];
+
+/**
+ * Expression editor mouth settings for each lip-sync frame
+ */
+export const VISEMES: Record<VisemeId, { label: string; params: ExpressionParams }> = {
+  closed: { label: "Closed (M, B, P, rest)", params: { aaa: -20 } },
+  small: { label: "Slightly open (consonants)", params: { aaa: 25 } },
+  aaa: { label: "Open (A)", params: { aaa: 90 } },
+  eee: { label: "Wide (E, I)", params: { aaa: 20, eee: 14 } },
+  ooo: { label: "Rounded (O, U, W)", params: { aaa: 30, woo: 14 } },
+};
+
+export const VISEME_IDS = Object.keys(VISEMES) as VisemeId[];
+
+/**
+ * Accepted range for the parallax shift, as a fraction of the image width
+ */
+export const PARALLAX_LIMITS = {
+  MIN_STRENGTH: 0.01,
+  MAX_STRENGTH: 0.15,
+} as const;
+
+/**
+ * Default Trellis sampling parameters
+ */
+export const DEFAULT_MODEL_SAMPLING: ModelSamplingParams = {
+  ssSamplingSteps: 12,
+  ssGuidanceStrength: 7.5,
+  slatSamplingSteps: 12,
+  slatGuidanceStrength: 3,
+};
+
+/**
+ * Accepted ranges for Trellis seed and sampling parameters
+ */
+export const MODEL_SAMPLING_LIMITS = {
+  MAX_SEED: 2147483647,
+  MIN_STEPS: 1,
+  MAX_STEPS: 50,
+  MIN_GUIDANCE: 0,
+  MAX_GUIDANCE: 10,
+} as const;
+
+/**
+ * Extra viewpoints offered for multi-view 3D input
+ */
+export const MODEL_VIEW_ANGLES: readonly ViewAngle[] = ["side", "back"];
+
+/**
+ * Random seed within the range Trellis accepts
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MODEL_SAMPLING_LIMITS.MAX_SEED + 1));
+}
+
 /**
  * Cost per image generation (in USD)
  */
 const COST_PER_IMAGE = 0.00098;
 
+/**
+ * Cost per preprocess (stylize or cleanup) call (in USD)
+ */
+const COST_PER_PREPROCESS = 0.01;
+
+/**
+ * Cost per inpaint touch-up (in USD)
+ */
+const COST_PER_INPAINT = 0.05;
+
+/**
+ * Share of the head angle range an eyes grid uses, so the head only drifts
+ * slightly while the pupils do the following
+ */
+const EYES_GRID_HEAD_SCALE = 0.25;
+
 /**
  * Round a number to specified precision
  */
@@ -26,8 +179,98 @@ function round(value: number, precision = 100): number {
   return Math.round(value * precision) / precision;
 }
 
+interface LayoutPosition {
+  head: { x: number; y: number };
+  eye: { x: number; y: number };
+}
+
+type StepAngles = Pick<Step, "rotate_yaw" | "rotate_pitch" | "pupil_x" | "pupil_y">;
+
+/**
+ * Normalized position (0-1) of a grid step; a single step sits at the centre
+ */
+function gridPosition(index: number, steps: number): number {
+  return steps > 1 ? index / (steps - 1) : 0.5;
+}
+
 /**
- * Generate step configurations for head rotation grid
+ * Map a normalized grid position (0-1) onto an axis range. The curve eases
+ * both halves out from the centre, so higher values put more cells near 0.
+ */
+function easeAxis(position: number, { min, max }: AngleRange, curve: number): number {
+  const signed = position * 2 - 1;
+  const eased = Math.sign(signed) * Math.abs(signed) ** curve;
+  return round(eased >= 0 ? eased * max : -eased * min);
+}
+
+/**
+ * Shrink an axis range towards 0
+ */
+function scaleRange({ min, max }: AngleRange, factor: number): AngleRange {
+  return { min: min * factor, max: max * factor };
+}
+
+/**
+ * Head and eye angles for a layout position
+ */
+function positionAngles({ head, eye }: LayoutPosition, angles: GridAngles, eyes: boolean): StepAngles {
+  const yaw = eyes ? scaleRange(angles.yaw, EYES_GRID_HEAD_SCALE) : angles.yaw;
+  const pitch = eyes ? scaleRange(angles.pitch, EYES_GRID_HEAD_SCALE) : angles.pitch;
+  return {
+    rotate_yaw: easeAxis(head.x, yaw, angles.headCurve),
+    rotate_pitch: easeAxis(head.y, pitch, angles.headCurve),
+    pupil_x: easeAxis(eye.x, angles.pupilX, angles.pupilCurve),
+    pupil_y: easeAxis(eye.y, angles.pupilY, angles.pupilCurve),
+  };
+}
+
+/**
+ * Head and eye positions (0-1 on each axis, 0.5 is straight ahead) of every
+ * cell in a layout, row by row
+ */
+function layoutPositions(layout: FrameLayout, eyes: boolean): LayoutPosition[][] {
+  const center = { x: 0.5, y: 0.5 };
+
+  if (layout.kind === "polar") {
+    const rows: LayoutPosition[][] = [[{ head: center, eye: center }]];
+    for (let ring = 1; ring <= layout.rings; ring++) {
+      const radius = (0.5 * ring) / layout.rings;
+      const row: LayoutPosition[] = [];
+      for (let direction = 0; direction < layout.directions; direction++) {
+        const angle = (direction / layout.directions) * 2 * Math.PI;
+        const point = { x: 0.5 + radius * Math.sin(angle), y: 0.5 - radius * Math.cos(angle) };
+        // Eyes layouts keep the head centred and move only the pupils
+        row.push({ head: eyes ? center : point, eye: point });
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  const { xSteps, ySteps, eyeXSteps, eyeYSteps } = layout;
+  const rows: LayoutPosition[][] = [];
+  for (let gridY = 0; gridY < ySteps * eyeYSteps; gridY++) {
+    const row: LayoutPosition[] = [];
+    for (let gridX = 0; gridX < xSteps * eyeXSteps; gridX++) {
+      const head = {
+        x: gridPosition(Math.floor(gridX / eyeXSteps), xSteps),
+        y: gridPosition(Math.floor(gridY / eyeYSteps), ySteps),
+      };
+      // Head grids move the pupils with the head; eyes grids sweep them within each head cell
+      const eye = eyes
+        ? { x: gridPosition(gridX % eyeXSteps, eyeXSteps), y: gridPosition(gridY % eyeYSteps, eyeYSteps) }
+        : head;
+      row.push({ head, eye });
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Generate step configurations for the head rotation layout, followed by the
+ * same layout once per expression layer. Frame index = layer * cells + cell,
+ * with cells numbered as described by the returned layout.
  */
 export function generateSteps(options: GenerateStepsOptions): GenerateStepsResult {
   const {
@@ -36,46 +279,415 @@ export function generateSteps(options: GenerateStepsOptions): GenerateStepsResul
     prefix,
     rotateBound = DEFAULTS.ROTATE_BOUND,
     pupilBound = DEFAULTS.PUPIL_BOUND,
+    expressions = [],
+    gridType = DEFAULTS.GRID_TYPE,
   } = options;
+  const eyes = gridType === "eyes";
+  const polar = options.layout === "polar";
+  const eyeXSteps = eyes && !polar ? (options.eyeXSteps ?? DEFAULTS.EYE_X_STEPS) : 1;
+  const eyeYSteps = eyes && !polar ? (options.eyeYSteps ?? DEFAULTS.EYE_Y_STEPS) : 1;
+  const layout: FrameLayout = polar
+    ? {
+        kind: "polar",
+        rings: options.rings ?? DEFAULTS.RINGS,
+        directions: options.directions ?? DEFAULTS.DIRECTIONS,
+      }
+    : { kind: "grid", xSteps, ySteps, eyeXSteps, eyeYSteps };
+  const angles: GridAngles = options.angles ?? {
+    yaw: { min: -rotateBound, max: rotateBound },
+    pitch: { min: -rotateBound, max: rotateBound },
+    pupilX: { min: -pupilBound, max: pupilBound },
+    pupilY: { min: -pupilBound, max: pupilBound },
+    headCurve: 1,
+    pupilCurve: 1,
+  };
+  const positions = layoutPositions(layout, eyes);
 
   const steps: Step[][] = [];
 
-  for (let y = 0; y < ySteps; y++) {
-    const row: Step[] = [];
-    for (let x = 0; x < xSteps; x++) {
-      const xNorm = xSteps > 1 ? x / (xSteps - 1) : 0.5;
-      const yNorm = ySteps > 1 ? y / (ySteps - 1) : 0.5;
-
-      const rotate_yaw = round(-rotateBound + xNorm * rotateBound * 2);
-      const rotate_pitch = round(-rotateBound + yNorm * rotateBound * 2);
-      const pupil_x = round(-pupilBound + xNorm * pupilBound * 2);
-      const pupil_y = round(-pupilBound + yNorm * pupilBound * 2);
-
-      const filename = `${prefix}_y${rotate_yaw}_p${rotate_pitch}_px${pupil_x}_py${pupil_y}.png`;
-
-      row.push({
-        filename,
-        rotate_yaw,
-        rotate_pitch,
-        pupil_x,
-        pupil_y,
-        crop_factor: DEFAULTS.CROP_FACTOR,
-        output_quality: DEFAULTS.OUTPUT_QUALITY,
-        src_ratio: 1,
-        sample_ratio: 1,
-      });
+  for (const expression of [undefined, ...expressions]) {
+    const params = expression ? EXPRESSION_LAYERS[expression].params : {};
+    const tag = expression ? `_${expression}` : "";
+
+    for (const row of positions) {
+      steps.push(
+        row.map((position) => {
+          const { rotate_yaw, rotate_pitch, pupil_x, pupil_y } = positionAngles(position, angles, eyes);
+
+          return {
+            filename: `${prefix}${tag}_y${rotate_yaw}_p${rotate_pitch}_px${pupil_x}_py${pupil_y}.png`,
+            expression,
+            rotate_yaw,
+            rotate_pitch,
+            pupil_x,
+            pupil_y,
+            crop_factor: DEFAULTS.CROP_FACTOR,
+            output_quality: DEFAULTS.OUTPUT_QUALITY,
+            src_ratio: 1,
+            sample_ratio: 1,
+            ...params,
+          };
+        })
+      );
     }
-    steps.push(row);
   }
 
-  return { steps, prefix, xSteps, ySteps };
+  return { steps, prefix, xSteps, ySteps, expressions, gridType, eyeXSteps, eyeYSteps, layout };
+}
+
+/**
+ * Columns and rows of the frame grid. Eyes grids nest the eye grid inside
+ * each head cell, so column = headX * eyeXSteps + eyeX (rows likewise).
+ */
+function frameGridSize(
+  xSteps: number,
+  ySteps: number,
+  eyeXSteps = 1,
+  eyeYSteps = 1
+): { width: number; height: number } {
+  return { width: xSteps * eyeXSteps, height: ySteps * eyeYSteps };
+}
+
+/**
+ * Position (0-1) within a head cell's span of the cursor axis, clamped so the
+ * edges of the outer cells still reach the outer eye cells
+ */
+function withinCell(position: number, steps: number, cell: number): number {
+  return Math.min(Math.max(position * steps - cell, 0), 1);
+}
+
+/**
+ * Number of cells in one layer of a layout
+ */
+export function countLayoutCells(layout: FrameLayout): number {
+  if (layout.kind === "polar") return 1 + layout.rings * layout.directions;
+  const { width, height } = frameGridSize(layout.xSteps, layout.ySteps, layout.eyeXSteps, layout.eyeYSteps);
+  return width * height;
+}
+
+/**
+ * Cell for a cursor position (0-1 on both axes). Grid layouts pick the head
+ * cell, then the eye cell from the cursor's position within that head cell's
+ * span, so every eye cell of every head pose can be reached. Polar layouts
+ * take the nearest ring by distance from the centre, then the nearest
+ * direction on it.
+ */
+export function cellAtPosition(x: number, y: number, layout: FrameLayout): number {
+  if (layout.kind === "polar") {
+    const dx = x * 2 - 1;
+    const dy = y * 2 - 1;
+    const ring = Math.round(Math.min(Math.hypot(dx, dy), 1) * layout.rings);
+    if (ring === 0) return 0;
+    const angle = (Math.atan2(dx, -dy) + 2 * Math.PI) % (2 * Math.PI);
+    const direction = Math.round((angle / (2 * Math.PI)) * layout.directions) % layout.directions;
+    return 1 + (ring - 1) * layout.directions + direction;
+  }
+
+  const { xSteps, ySteps, eyeXSteps, eyeYSteps } = layout;
+  const pick = (position: number, steps: number) =>
+    Math.min(Math.max(0, Math.floor(position * steps)), steps - 1);
+  const headX = pick(x, xSteps);
+  const headY = pick(y, ySteps);
+  const column = headX * eyeXSteps + pick(withinCell(x, xSteps, headX), eyeXSteps);
+  const row = headY * eyeYSteps + pick(withinCell(y, ySteps, headY), eyeYSteps);
+  return row * xSteps * eyeXSteps + column;
+}
+
+/**
+ * Position of a cell for measuring distances between cells: column and row
+ * for grids, or x/y in ring widths from the centre for polar layouts
+ */
+export function cellCoordinates(layout: FrameLayout, cell: number): { x: number; y: number } {
+  if (layout.kind === "polar") {
+    if (cell === 0) return { x: 0, y: 0 };
+    const ring = Math.floor((cell - 1) / layout.directions) + 1;
+    const angle = (((cell - 1) % layout.directions) / layout.directions) * 2 * Math.PI;
+    return { x: ring * Math.sin(angle), y: -ring * Math.cos(angle) };
+  }
+
+  const width = layout.xSteps * layout.eyeXSteps;
+  return { x: cell % width, y: Math.floor(cell / width) };
+}
+
+/**
+ * Head and eye angles under a cursor position (0-1 on both axes), on the same
+ * mapping generateSteps uses, so frames can be looked up by nearest angle
+ */
+export function anglesAtPosition(
+  x: number,
+  y: number,
+  layout: FrameLayout,
+  gridType: GridType,
+  angles: GridAngles
+): StepAngles {
+  const eyes = gridType === "eyes";
+
+  if (layout.kind === "polar") {
+    // Clamp to the outer ring, which sits on the edge of the 0-1 square
+    const dx = x - 0.5;
+    const dy = y - 0.5;
+    const scale = Math.min(1, 0.5 / Math.max(Math.hypot(dx, dy), 1e-6));
+    const point = { x: 0.5 + dx * scale, y: 0.5 + dy * scale };
+    return positionAngles({ head: eyes ? { x: 0.5, y: 0.5 } : point, eye: point }, angles, eyes);
+  }
+
+  // Stretch so the middle of each cell lands on that cell's own grid position
+  const stretch = (value: number, steps: number) =>
+    steps > 1 ? Math.min(Math.max((value * steps - 0.5) / (steps - 1), 0), 1) : 0.5;
+  const head = { x: stretch(x, layout.xSteps), y: stretch(y, layout.ySteps) };
+  const headCell = (value: number, steps: number) =>
+    Math.min(Math.max(0, Math.floor(value * steps)), steps - 1);
+  const eye = eyes
+    ? {
+        x: stretch(withinCell(x, layout.xSteps, headCell(x, layout.xSteps)), layout.eyeXSteps),
+        y: stretch(withinCell(y, layout.ySteps, headCell(y, layout.ySteps)), layout.eyeYSteps),
+      }
+    : head;
+  return positionAngles({ head, eye }, angles, eyes);
+}
+
+/**
+ * Pairs of neighbouring cells in a layout: right and down neighbours on grids;
+ * centre to first ring, around each ring and outwards between rings on polar layouts
+ */
+export function adjacentCells(layout: FrameLayout): FramePair[] {
+  const pairs: FramePair[] = [];
+
+  if (layout.kind === "polar") {
+    const { rings, directions } = layout;
+    const cell = (ring: number, direction: number) =>
+      1 + (ring - 1) * directions + (direction % directions);
+    for (let direction = 0; direction < directions; direction++) {
+      pairs.push([0, cell(1, direction)]);
+      for (let ring = 1; ring <= rings; ring++) {
+        pairs.push([cell(ring, direction), cell(ring, direction + 1)]);
+        if (ring < rings) pairs.push([cell(ring, direction), cell(ring + 1, direction)]);
+      }
+    }
+    return pairs;
+  }
+
+  const { width, height } = frameGridSize(layout.xSteps, layout.ySteps, layout.eyeXSteps, layout.eyeYSteps);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = y * width + x;
+      if (x < width - 1) pairs.push([cell, cell + 1]);
+      if (y < height - 1) pairs.push([cell, cell + width]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Grid with a cell added between every pair of neighbouring cells. Eyes grids
+ * densify the eye grid inside each head cell; polar layouts are left as they are.
+ */
+export function upsampleLayout(layout: FrameLayout): FrameLayout {
+  if (layout.kind === "polar") return layout;
+  const double = (steps: number) => steps * 2 - 1;
+  return layout.eyeXSteps * layout.eyeYSteps > 1
+    ? { ...layout, eyeXSteps: double(layout.eyeXSteps), eyeYSteps: double(layout.eyeYSteps) }
+    : { ...layout, xSteps: double(layout.xSteps), ySteps: double(layout.ySteps) };
+}
+
+/**
+ * Steps for refinement frames, each halfway between the two frames its pair
+ * names. Pairs refer to frames of the base set (below baseCount) or to earlier
+ * refinements, whose frame index is baseCount + their position in the list.
+ */
+export function generateRefinementSteps(
+  baseSteps: Step[],
+  pairs: FramePair[],
+  baseCount: number,
+  prefix: string
+): Step[] {
+  const refined: Step[] = [];
+  const stepAt = (index: number) => (index < baseCount ? baseSteps[index] : refined[index - baseCount]);
+
+  for (const [a, b] of pairs) {
+    const from = stepAt(a);
+    const to = stepAt(b);
+    const rotate_yaw = round((from.rotate_yaw + to.rotate_yaw) / 2);
+    const rotate_pitch = round((from.rotate_pitch + to.rotate_pitch) / 2);
+    const pupil_x = round((from.pupil_x + to.pupil_x) / 2);
+    const pupil_y = round((from.pupil_y + to.pupil_y) / 2);
+
+    refined.push({
+      filename: `${prefix}_refined_y${rotate_yaw}_p${rotate_pitch}_px${pupil_x}_py${pupil_y}.png`,
+      rotate_yaw,
+      rotate_pitch,
+      pupil_x,
+      pupil_y,
+      crop_factor: DEFAULTS.CROP_FACTOR,
+      output_quality: DEFAULTS.OUTPUT_QUALITY,
+      src_ratio: 1,
+      sample_ratio: 1,
+    });
+  }
+
+  return refined;
+}
+
+/**
+ * Step configurations for the lip-sync set: the front-facing head, one per viseme
+ */
+export function generateVisemeSteps(prefix: string): Step[] {
+  return VISEME_IDS.map((viseme) => ({
+    filename: `${prefix}_${viseme}.png`,
+    viseme,
+    rotate_yaw: 0,
+    rotate_pitch: 0,
+    pupil_x: 0,
+    pupil_y: 0,
+    crop_factor: DEFAULTS.CROP_FACTOR,
+    output_quality: DEFAULTS.OUTPUT_QUALITY,
+    src_ratio: 1,
+    sample_ratio: 1,
+    ...VISEMES[viseme].params,
+  }));
+}
+
+/**
+ * Number of frames in a layout with its expression layers
+ */
+export function countFrames(
+  layout: FrameLayout,
+  expressions: readonly ExpressionLayerId[] = []
+): number {
+  return countLayoutCells(layout) * (expressions.length + 1);
+}
+
+/**
+ * Polar counterpart of the grid ordering: the centre, then ring by ring
+ * clockwise from the top. Coarse-to-fine first covers every ring in a few
+ * directions, then fills in the directions between them.
+ */
+function orderPolarIndices(
+  indices: number[],
+  { rings, directions }: { rings: number; directions: number },
+  order: FrameOrder
+): number[] {
+  const cells = 1 + rings * directions;
+
+  const keyed = indices.map((index) => {
+    const cell = index % cells;
+    const direction = cell === 0 ? 0 : (cell - 1) % directions;
+    return {
+      index,
+      layer: Math.floor(index / cells),
+      first: cell === 0 ? 0 : 1,
+      // Lowest set bit: directions at wider power-of-two spacings come first
+      level: order === "coarse-to-fine" ? -(direction === 0 ? directions : direction & -direction) : 0,
+      ring: cell === 0 ? 0 : Math.floor((cell - 1) / directions) + 1,
+      direction,
+    };
+  });
+
+  keyed.sort(
+    (a, b) =>
+      a.layer - b.layer ||
+      a.first - b.first ||
+      a.level - b.level ||
+      a.ring - b.ring ||
+      a.direction - b.direction
+  );
+  return keyed.map((k) => k.index);
+}
+
+/**
+ * Order frame indices for scheduling so the viewer becomes usable early.
+ * The neutral layout comes first, then each expression layer in the same cell order.
+ */
+export function orderFrameIndices(
+  indices: number[],
+  layout: FrameLayout,
+  order: FrameOrder = "center-out"
+): number[] {
+  if (order === "row-major") {
+    return [...indices].sort((a, b) => a - b);
+  }
+  if (layout.kind === "polar") {
+    return orderPolarIndices(indices, layout, order);
+  }
+
+  const { width: xSteps, height: ySteps } = frameGridSize(
+    layout.xSteps,
+    layout.ySteps,
+    layout.eyeXSteps,
+    layout.eyeYSteps
+  );
+  const cells = xSteps * ySteps;
+  const cx = (xSteps - 1) / 2;
+  const cy = (ySteps - 1) / 2;
+  const center = Math.round(cy) * xSteps + Math.round(cx);
+
+  // Largest power-of-two stride that lands on both coordinates (last row/column always do)
+  const maxStride = Math.pow(2, Math.floor(Math.log2(Math.max(xSteps, ySteps, 2) - 1)));
+  const onStride = (value: number, steps: number, stride: number) =>
+    value % stride === 0 || value === steps - 1;
+  const level = (x: number, y: number): number => {
+    let stride = maxStride;
+    while (stride > 1 && !(onStride(x, xSteps, stride) && onStride(y, ySteps, stride))) {
+      stride /= 2;
+    }
+    return stride;
+  };
+
+  const keyed = indices.map((index) => {
+    const cell = index % cells;
+    const x = cell % xSteps;
+    const y = Math.floor(cell / xSteps);
+    return {
+      index,
+      layer: Math.floor(index / cells),
+      first: cell === center ? 0 : 1,
+      level: order === "coarse-to-fine" ? -level(x, y) : 0,
+      // Chebyshev ring around the center, walked clockwise from the top
+      ring: Math.max(Math.abs(x - cx), Math.abs(y - cy)),
+      angle: (Math.atan2(x - cx, cy - y) + 2 * Math.PI) % (2 * Math.PI),
+    };
+  });
+
+  keyed.sort(
+    (a, b) =>
+      a.layer - b.layer ||
+      a.first - b.first ||
+      a.level - b.level ||
+      a.ring - b.ring ||
+      a.angle - b.angle
+  );
+  return keyed.map((k) => k.index);
 }
 
 /**
  * Calculate estimated cost for generation
  */
-export function calculateCost(xSteps: number, ySteps: number): number {
-  return xSteps * ySteps * COST_PER_IMAGE;
+export function calculateCost(
+  layout: FrameLayout,
+  expressions: readonly ExpressionLayerId[] = []
+): number {
+  return calculateFrameCost(countFrames(layout, expressions));
+}
+
+/**
+ * Calculate estimated cost for a number of individual frames
+ */
+export function calculateFrameCost(frameCount: number): number {
+  return frameCount * COST_PER_IMAGE;
+}
+
+/**
+ * Calculate estimated cost of preparing the source image
+ */
+export function calculatePreprocessCost(mode: PreprocessMode, candidates = 1): number {
+  return mode === "passthrough" ? 0 : COST_PER_PREPROCESS * candidates;
+}
+
+/**
+ * Calculate estimated cost of a touch-up of the stylized image
+ */
+export function calculateInpaintCost(): number {
+  return COST_PER_INPAINT;
 }
 
 // Re-export Step type for convenience
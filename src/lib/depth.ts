@@ -0,0 +1,25 @@
+import { blobToBase64, loadPipeline } from "./transformers";
+
+/**
+ * Browser-side monocular depth estimation for the parallax mode.
+ * Runs a depth model through transformers.js, so a parallax avatar costs no
+ * API calls beyond preparing the image.
+ */
+
+// Loaded lazily: the model is fetched from the Hugging Face Hub on first use
+const DEPTH_MODEL = "Xenova/depth-anything-small-hf";
+
+interface DepthResult {
+  depth: { toBlob(type?: string): Promise<Blob> }; // Greyscale, near is bright
+}
+
+type DepthEstimator = (image: string) => Promise<DepthResult>;
+
+/**
+ * Estimate a depth map for an image, returned as a base64 greyscale PNG
+ */
+export async function estimateDepth(imageBase64: string): Promise<string> {
+  const estimator = await loadPipeline<DepthEstimator>("depth-estimation", DEPTH_MODEL);
+  const { depth } = await estimator(`data:image/png;base64,${imageBase64}`);
+  return blobToBase64(await depth.toBlob("image/png"));
+}
@@ -0,0 +1,138 @@
+import { loadPipeline } from "./transformers";
+
+/**
+ * Browser-side face detection and cropping for uploaded photos.
+ * Runs a zero-shot detector through transformers.js so bad uploads are caught
+ * before a stylization run is paid for.
+ */
+
+// Loaded lazily: the model is fetched from the Hugging Face Hub on first use
+const FACE_DETECTION_MODEL = "Xenova/owlvit-base-patch32";
+const FACE_LABEL = "human face";
+const MIN_FACE_SCORE = 0.15;
+const OVERLAP_IOU = 0.4;
+
+// Crop side relative to face height, and where the face centre sits vertically
+const FACE_CROP_SCALE = 2.4;
+const FACE_CENTER_Y = 0.45;
+export const CROP_OUTPUT_SIZE = 1024;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedFace extends Box {
+  score: number;
+}
+
+type FaceDetector = (
+  image: string,
+  labels: string[],
+  options: { threshold: number }
+) => Promise<{ score: number; box: { xmin: number; ymin: number; xmax: number; ymax: number } }[]>;
+
+function intersectionOverUnion(a: Box, b: Box): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Detect faces in an image, best first, with overlapping boxes merged
+ */
+export async function detectFaces(imageUrl: string): Promise<DetectedFace[]> {
+  const detector = await loadPipeline<FaceDetector>(
+    "zero-shot-object-detection",
+    FACE_DETECTION_MODEL
+  );
+  const detections = await detector(imageUrl, [FACE_LABEL], { threshold: MIN_FACE_SCORE });
+
+  const faces = detections
+    .map(({ score, box }) => ({
+      score,
+      x: box.xmin,
+      y: box.ymin,
+      width: box.xmax - box.xmin,
+      height: box.ymax - box.ymin,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  // Non-maximum suppression
+  const kept: DetectedFace[] = [];
+  for (const face of faces) {
+    if (kept.every((other) => intersectionOverUnion(face, other) < OVERLAP_IOU)) {
+      kept.push(face);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Square crop that frames a face at a consistent scale
+ */
+export function cropAroundFace(face: Box): Box {
+  const size = Math.max(face.width, face.height) * FACE_CROP_SCALE;
+  const centerX = face.x + face.width / 2;
+  const centerY = face.y + face.height / 2;
+  return {
+    x: centerX - size / 2,
+    y: centerY - size * FACE_CENTER_Y,
+    width: size,
+    height: size,
+  };
+}
+
+/**
+ * Largest centred square, used when no face is found
+ */
+export function centerCrop(imageWidth: number, imageHeight: number): Box {
+  const size = Math.min(imageWidth, imageHeight);
+  return {
+    x: (imageWidth - size) / 2,
+    y: (imageHeight - size) / 2,
+    width: size,
+    height: size,
+  };
+}
+
+/**
+ * Load an image element from a URL
+ */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+/**
+ * Render a crop of the image as a PNG data URL; areas outside the photo are black
+ */
+export function cropImage(img: HTMLImageElement, crop: Box, outputSize = CROP_OUTPUT_SIZE): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = outputSize;
+  canvas.height = Math.round((outputSize * crop.height) / crop.width);
+
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const scale = canvas.width / crop.width;
+  ctx.drawImage(
+    img,
+    -crop.x * scale,
+    -crop.y * scale,
+    img.naturalWidth * scale,
+    img.naturalHeight * scale
+  );
+  return canvas.toDataURL("image/png");
+}
@@ -0,0 +1,147 @@
+import { countLayoutCells, upsampleLayout } from "./constants";
+import type { InbetweenRequest, InbetweenResponse } from "./inbetween.worker";
+import type { FrameLayout, FramePair, GeneratedImage, Step } from "./types";
+
+/**
+ * Browser-side grid upsampling. Every generated frame keeps its place on a
+ * grid twice as dense, and the new cells are synthesized from their neighbours
+ * with optical flow in a Web Worker, at no API cost.
+ */
+
+export interface UpsamplePlan {
+  layout: FrameLayout;
+  /** New index of each frame of the original grid */
+  moves: Map<number, number>;
+  /** Synthesized frames in order; each pair names existing frames or earlier tasks */
+  tasks: { index: number; pair: FramePair }[];
+}
+
+/**
+ * Where frames move on the upsampled grid and how to fill the cells between
+ * them: first halfway along each row, then halfway down each column, so cells
+ * between four frames blend two frames synthesized the step before
+ */
+export function planUpsample(layout: FrameLayout, layers: number): UpsamplePlan {
+  const upsampled = upsampleLayout(layout);
+  if (layout.kind === "polar" || upsampled.kind === "polar") {
+    return { layout, moves: new Map(), tasks: [] };
+  }
+
+  // Eyes grids densify each head cell's eye block; head grids are one block
+  const eyes = layout.eyeXSteps * layout.eyeYSteps > 1;
+  const width = layout.xSteps * layout.eyeXSteps;
+  const height = layout.ySteps * layout.eyeYSteps;
+  const newWidth = upsampled.xSteps * upsampled.eyeXSteps;
+  const newHeight = upsampled.ySteps * upsampled.eyeYSteps;
+  const block = eyes ? { x: layout.eyeXSteps, y: layout.eyeYSteps } : { x: width, y: height };
+  const newBlock = eyes
+    ? { x: upsampled.eyeXSteps, y: upsampled.eyeYSteps }
+    : { x: newWidth, y: newHeight };
+  const spread = (value: number, size: number, newSize: number) =>
+    Math.floor(value / size) * newSize + 2 * (value % size);
+
+  const cells = countLayoutCells(layout);
+  const newCells = countLayoutCells(upsampled);
+  const moves = new Map<number, number>();
+  const rowTasks: UpsamplePlan["tasks"] = [];
+  const columnTasks: UpsamplePlan["tasks"] = [];
+
+  for (let layer = 0; layer < layers; layer++) {
+    const at = (x: number, y: number) => layer * newCells + y * newWidth + x;
+
+    for (let cell = 0; cell < cells; cell++) {
+      const x = spread(cell % width, block.x, newBlock.x);
+      const y = spread(Math.floor(cell / width), block.y, newBlock.y);
+      moves.set(layer * cells + cell, at(x, y));
+    }
+
+    for (let y = 0; y < newHeight; y++) {
+      for (let x = 0; x < newWidth; x++) {
+        const oddX = (x % newBlock.x) % 2 === 1;
+        const oddY = (y % newBlock.y) % 2 === 1;
+        if (oddY) {
+          columnTasks.push({ index: at(x, y), pair: [at(x, y - 1), at(x, y + 1)] });
+        } else if (oddX) {
+          rowTasks.push({ index: at(x, y), pair: [at(x - 1, y), at(x + 1, y)] });
+        }
+      }
+    }
+  }
+
+  return { layout: upsampled, moves, tasks: [...rowTasks, ...columnTasks] };
+}
+
+/**
+ * Angles halfway between two frames' steps, for labelling a synthesized frame
+ */
+function midpointStep(from: Step, to: Step, index: number): Step {
+  return {
+    ...from,
+    filename: `synthesized-${index}`,
+    rotate_yaw: (from.rotate_yaw + to.rotate_yaw) / 2,
+    rotate_pitch: (from.rotate_pitch + to.rotate_pitch) / 2,
+    pupil_x: (from.pupil_x + to.pupil_x) / 2,
+    pupil_y: (from.pupil_y + to.pupil_y) / 2,
+  };
+}
+
+/**
+ * Frames of a complete grid laid out on the upsampled grid, with the cells in
+ * between synthesized one by one in a worker
+ */
+export async function upsampleFrames(
+  images: GeneratedImage[],
+  layout: FrameLayout,
+  layers: number,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<GeneratedImage[]> {
+  const plan = planUpsample(layout, layers);
+  const frames = new Map<number, GeneratedImage>();
+  images.forEach((image, i) => {
+    const index = plan.moves.get(image.index ?? i);
+    if (index !== undefined) frames.set(index, { ...image, index });
+  });
+
+  const worker = new Worker(new URL("./inbetween.worker.ts", import.meta.url));
+  let nextId = 0;
+  const request = (message: Omit<InbetweenRequest, "id">) =>
+    new Promise<string>((resolve, reject) => {
+      const id = nextId++;
+      const handleMessage = (event: MessageEvent<InbetweenResponse>) => {
+        if (event.data.id !== id) return;
+        worker.removeEventListener("message", handleMessage);
+        if ("error" in event.data) reject(new Error(event.data.error));
+        else resolve(event.data.base64);
+      };
+      worker.addEventListener("message", handleMessage);
+      worker.postMessage({ id, ...message } satisfies InbetweenRequest);
+    });
+
+  try {
+    for (const [done, { index, pair }] of plan.tasks.entries()) {
+      if (signal?.aborted) throw new DOMException("Upsampling cancelled", "AbortError");
+      const from = frames.get(pair[0]);
+      const to = frames.get(pair[1]);
+      if (!from || !to) throw new Error(`Frame ${pair[from ? 1 : 0]} is missing`);
+
+      const mimeType = from.mimeType ?? "image/png";
+      const base64 = await request({
+        from: { base64: from.imageBase64, mimeType },
+        to: { base64: to.imageBase64, mimeType: to.mimeType ?? "image/png" },
+      });
+      frames.set(index, {
+        step: midpointStep(from.step, to.step, index),
+        imageBase64: base64,
+        index,
+        mimeType: from.mimeType,
+        synthesized: true,
+      });
+      onProgress?.(done + 1, plan.tasks.length);
+    }
+  } finally {
+    worker.terminate();
+  }
+
+  return [...frames.values()].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+}
@@ -0,0 +1,245 @@
+/**
+ * Web Worker that synthesizes the frame halfway between two frames. Motion is
+ * estimated by block matching on small greyscale copies, looking for the
+ * half-displacement h at each block where A(p - h) matches B(p + h), so the
+ * flow is sampled directly at the in-between frame and no holes open up.
+ * Both frames are then warped halfway along it and blended.
+ */
+
+export interface InbetweenFrame {
+  base64: string;
+  mimeType: string;
+}
+
+export interface InbetweenRequest {
+  id: number;
+  from: InbetweenFrame;
+  to: InbetweenFrame;
+}
+
+export type InbetweenResponse =
+  | { id: number; base64: string }
+  | { id: number; error: string };
+
+const FLOW_SETTINGS = {
+  SIZE: 96, // Longest side of the copies used for motion estimation
+  BLOCK: 6, // Block size in those copies
+  RADIUS: 6, // Largest half-displacement searched, in copy pixels
+  SMOOTHNESS: 0.0005, // Penalty per squared pixel of motion, so flat areas stay still
+};
+const WEBP_QUALITY = 0.9;
+
+interface Flow {
+  columns: number;
+  rows: number;
+  dx: Float32Array; // Half-displacement per block, in copy pixels
+  dy: Float32Array;
+}
+
+async function decodeFrame({ base64, mimeType }: InbetweenFrame): Promise<ImageBitmap> {
+  const blob = await fetch(`data:${mimeType};base64,${base64}`).then((r) => r.blob());
+  return createImageBitmap(blob);
+}
+
+function readPixels(bitmap: ImageBitmap, width: number, height: number): ImageData {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Luma weighted by alpha, so transparent areas match each other
+ */
+function toLuma({ data, width, height }: ImageData): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] = ((0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]) * data[o + 3]) / 65025;
+  }
+  return luma;
+}
+
+function estimateFlow(a: Float32Array, b: Float32Array, width: number, height: number): Flow {
+  const { BLOCK, RADIUS, SMOOTHNESS } = FLOW_SETTINGS;
+  const columns = Math.ceil(width / BLOCK);
+  const rows = Math.ceil(height / BLOCK);
+  const dx = new Float32Array(columns * rows);
+  const dy = new Float32Array(columns * rows);
+  const at = (luma: Float32Array, x: number, y: number) =>
+    luma[Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x0 = column * BLOCK;
+      const y0 = row * BLOCK;
+      let best = Infinity;
+
+      for (let hy = -RADIUS; hy <= RADIUS; hy++) {
+        for (let hx = -RADIUS; hx <= RADIUS; hx++) {
+          let cost = 0;
+          for (let y = y0; y < y0 + BLOCK; y++) {
+            for (let x = x0; x < x0 + BLOCK; x++) {
+              cost += Math.abs(at(a, x - hx, y - hy) - at(b, x + hx, y + hy));
+            }
+          }
+          cost = cost / (BLOCK * BLOCK) + SMOOTHNESS * (hx * hx + hy * hy);
+          if (cost < best) {
+            best = cost;
+            dx[row * columns + column] = hx;
+            dy[row * columns + column] = hy;
+          }
+        }
+      }
+    }
+  }
+
+  return { columns, rows, dx: smoothField(dx, columns, rows), dy: smoothField(dy, columns, rows) };
+}
+
+/**
+ * 3x3 mean of a block field, to calm isolated mismatches
+ */
+function smoothField(field: Float32Array, columns: number, rows: number): Float32Array {
+  const smoothed = new Float32Array(field.length);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = Math.max(row - 1, 0); y <= Math.min(row + 1, rows - 1); y++) {
+        for (let x = Math.max(column - 1, 0); x <= Math.min(column + 1, columns - 1); x++) {
+          sum += field[y * columns + x];
+          count++;
+        }
+      }
+      smoothed[row * columns + column] = sum / count;
+    }
+  }
+  return smoothed;
+}
+
+/**
+ * Bilinear sample of a block field at a position in block units
+ */
+function sampleField(field: Float32Array, columns: number, rows: number, x: number, y: number): number {
+  const cx = Math.min(Math.max(x, 0), columns - 1);
+  const cy = Math.min(Math.max(y, 0), rows - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, columns - 1);
+  const y1 = Math.min(y0 + 1, rows - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const top = field[y0 * columns + x0] * (1 - fx) + field[y0 * columns + x1] * fx;
+  const bottom = field[y1 * columns + x0] * (1 - fx) + field[y1 * columns + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Bilinear sample of one pixel, premultiplied by alpha, into out[0..3]
+ */
+function samplePixel({ data, width, height }: ImageData, x: number, y: number, out: Float32Array) {
+  const cx = Math.min(Math.max(x, 0), width - 1);
+  const cy = Math.min(Math.max(y, 0), height - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  out.fill(0);
+  const corners: [number, number, number][] = [
+    [x0, y0, (1 - fx) * (1 - fy)],
+    [x1, y0, fx * (1 - fy)],
+    [x0, y1, (1 - fx) * fy],
+    [x1, y1, fx * fy],
+  ];
+  for (const [px, py, weight] of corners) {
+    const o = (py * width + px) * 4;
+    const alpha = data[o + 3] * weight;
+    out[0] += data[o] * alpha;
+    out[1] += data[o + 1] * alpha;
+    out[2] += data[o + 2] * alpha;
+    out[3] += alpha;
+  }
+}
+
+function synthesizeMidpoint(a: ImageData, b: ImageData, flow: Flow, flowScale: number): ImageData {
+  const { width, height } = a;
+  const output = new ImageData(width, height);
+  const blockScale = flowScale / FLOW_SETTINGS.BLOCK;
+  const pixelA = new Float32Array(4);
+  const pixelB = new Float32Array(4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Block centres sit half a block in
+      const bx = x * blockScale - 0.5;
+      const by = y * blockScale - 0.5;
+      const hx = sampleField(flow.dx, flow.columns, flow.rows, bx, by) / flowScale;
+      const hy = sampleField(flow.dy, flow.columns, flow.rows, bx, by) / flowScale;
+      samplePixel(a, x - hx, y - hy, pixelA);
+      samplePixel(b, x + hx, y + hy, pixelB);
+
+      const alpha = pixelA[3] + pixelB[3];
+      const o = (y * width + x) * 4;
+      if (alpha > 0) {
+        output.data[o] = (pixelA[0] + pixelB[0]) / alpha;
+        output.data[o + 1] = (pixelA[1] + pixelB[1]) / alpha;
+        output.data[o + 2] = (pixelA[2] + pixelB[2]) / alpha;
+      }
+      output.data[o + 3] = alpha / 2;
+    }
+  }
+
+  return output;
+}
+
+async function encodeBase64(image: ImageData, mimeType: string): Promise<string> {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  canvas.getContext("2d")!.putImageData(image, 0, 0);
+  const blob = await canvas.convertToBlob({ type: mimeType, quality: WEBP_QUALITY });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function inbetween({ from, to }: InbetweenRequest): Promise<string> {
+  const [bitmapA, bitmapB] = await Promise.all([decodeFrame(from), decodeFrame(to)]);
+  const { width, height } = bitmapA;
+  const flowScale = FLOW_SETTINGS.SIZE / Math.max(width, height);
+  const smallWidth = Math.max(1, Math.round(width * flowScale));
+  const smallHeight = Math.max(1, Math.round(height * flowScale));
+
+  const flow = estimateFlow(
+    toLuma(readPixels(bitmapA, smallWidth, smallHeight)),
+    toLuma(readPixels(bitmapB, smallWidth, smallHeight)),
+    smallWidth,
+    smallHeight
+  );
+  const output = synthesizeMidpoint(
+    readPixels(bitmapA, width, height),
+    readPixels(bitmapB, width, height),
+    flow,
+    flowScale
+  );
+  bitmapA.close();
+  bitmapB.close();
+
+  return encodeBase64(output, from.mimeType);
+}
+
+self.addEventListener("message", (event: MessageEvent<InbetweenRequest>) => {
+  const { id } = event.data;
+  inbetween(event.data)
+    .then((base64) => self.postMessage({ id, base64 } satisfies InbetweenResponse))
+    .catch((error) =>
+      self.postMessage({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      } satisfies InbetweenResponse)
+    );
+});
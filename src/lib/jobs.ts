@@ -0,0 +1,320 @@
+import { encodeSSE } from "./sse";
+import type {
+  JobKind,
+  JobStatus,
+  JobError,
+  JobSummary,
+  FrameSummary,
+  StreamEvent,
+  PreprocessResponse,
+  InpaintResponse,
+  Generate3DResponse,
+} from "./types";
+
+/**
+ * In-memory job store for server-side generations.
+ * Jobs outlive the request that started them, so a dropped client can
+ * query their state and resume the event stream from its last seen id.
+ */
+
+const JOB_TTL_MS = 30 * 60 * 1000;
+const MAX_JOBS = 10;
+// Running jobs are never evicted, so they are capped instead
+const MAX_RUNNING_JOBS = 4;
+// Cancel a running job once no client has been listening for this long
+const ABANDON_TIMEOUT_MS = 60 * 1000;
+
+type JobListener = (event: StreamEvent, id: number) => void;
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  total: number;
+  completed: Set<number>;
+  pending: Set<number>;
+  errors: JobError[];
+  events: { id: number; event: StreamEvent }[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+  sourceImageBase64?: string;
+  result?: PreprocessResponse | InpaintResponse | Generate3DResponse;
+}
+
+// Survive module reloads in development
+const globalStore = globalThis as typeof globalThis & { __avatarJobs?: Map<string, Job> };
+const jobs = (globalStore.__avatarJobs ??= new Map<string, Job>());
+
+/**
+ * Drop expired jobs, then the oldest finished ones while over capacity
+ */
+function pruneJobs(): void {
+  const now = Date.now();
+  for (const [id, job] of jobs) {
+    if (now - job.updatedAt > JOB_TTL_MS) jobs.delete(id);
+  }
+
+  const finished = [...jobs.values()]
+    .filter((job) => job.status !== "running")
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+  while (jobs.size >= MAX_JOBS && finished.length > 0) {
+    jobs.delete(finished.shift()!.id);
+  }
+}
+
+/**
+ * Whether another job may start; routes reject the request when it may not
+ */
+export function hasJobCapacity(): boolean {
+  pruneJobs();
+  let running = 0;
+  for (const job of jobs.values()) {
+    if (job.status === "running") running++;
+  }
+  return running < MAX_RUNNING_JOBS;
+}
+
+/**
+ * Create and register a new job
+ */
+export function createJob(
+  kind: JobKind,
+  indices: number[],
+  sourceImageBase64?: string
+): Job {
+  pruneJobs();
+
+  const now = Date.now();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    kind,
+    status: "running",
+    createdAt: now,
+    updatedAt: now,
+    total: indices.length,
+    completed: new Set(),
+    pending: new Set(indices),
+    errors: [],
+    events: [],
+    listeners: new Set(),
+    controller: new AbortController(),
+    sourceImageBase64,
+  };
+
+  jobs.set(job.id, job);
+  return job;
+}
+
+/**
+ * Look up a job by id
+ */
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Whether an event ends the job's stream
+ */
+export function isTerminalEvent(event: StreamEvent): boolean {
+  return event.type === "complete" || event.type === "error" || event.type === "cancelled";
+}
+
+/**
+ * Record an event on the job and notify live subscribers
+ */
+export function appendJobEvent(job: Job, event: StreamEvent): void {
+  const id = job.events.length + 1;
+  job.events.push({ id, event });
+  job.updatedAt = Date.now();
+
+  if (event.type === "complete") job.status = "complete";
+  if (event.type === "error") job.status = "error";
+  if (event.type === "cancelled") job.status = "cancelled";
+  if (isTerminalEvent(event)) clearTimeout(job.abandonTimer);
+
+  for (const listener of job.listeners) {
+    listener(event, id);
+  }
+}
+
+/**
+ * Abort a running job's in-flight work and notify subscribers
+ */
+export function cancelJob(job: Job): void {
+  if (job.status !== "running") return;
+  job.controller.abort();
+  appendJobEvent(job, { type: "cancelled" });
+}
+
+/**
+ * Mark a unit of work as done
+ */
+export function markJobIndexComplete(job: Job, index: number): void {
+  job.pending.delete(index);
+  job.completed.add(index);
+  job.updatedAt = Date.now();
+}
+
+/**
+ * Mark a unit of work as failed
+ */
+export function markJobIndexFailed(job: Job, index: number, error: string): void {
+  job.pending.delete(index);
+  job.errors.push({ index, error });
+  job.updatedAt = Date.now();
+}
+
+/**
+ * Succeeded/failed counts for the final complete event
+ */
+export function getJobSummaryCounts(job: Job): FrameSummary {
+  const failedIndices = job.errors
+    .map((error) => error.index)
+    .filter((index): index is number => index !== undefined)
+    .sort((a, b) => a - b);
+
+  return {
+    succeeded: job.completed.size,
+    failed: failedIndices.length,
+    failedIndices,
+  };
+}
+
+/**
+ * Run a single-result job (preprocess, inpaint, model) to completion
+ */
+export async function runJob<T extends PreprocessResponse | InpaintResponse | Generate3DResponse>(
+  job: Job,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  try {
+    const result = await task(job.controller.signal);
+    job.controller.signal.throwIfAborted();
+    job.result = result;
+    // Tasks with several units mark their own outcomes; the rest is done now
+    for (const index of job.pending) markJobIndexComplete(job, index);
+    appendJobEvent(job, {
+      type: "complete",
+      summary: getJobSummaryCounts(job),
+      model:
+        "glbBase64" in result
+          ? { path: `/api/jobs/${job.id}/model`, glbUrl: result.glbUrl }
+          : undefined,
+      // Images are small enough to send inline; GLBs are downloaded separately
+      result: "glbBase64" in result ? undefined : result,
+    });
+    return result;
+  } catch (error) {
+    if (!job.controller.signal.aborted) {
+      const message = error instanceof Error ? error.message : "Job failed";
+      for (const index of job.pending) markJobIndexFailed(job, index, message);
+      appendJobEvent(job, { type: "error", error: message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serializable job state for the status endpoint
+ */
+export function toJobSummary(job: Job): JobSummary {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    total: job.total,
+    completedIndices: [...job.completed].sort((a, b) => a - b),
+    pendingIndices: [...job.pending].sort((a, b) => a - b),
+    errors: job.errors,
+    lastEventId: job.events.length,
+    // Payloads are linked rather than inlined to keep status polls small
+    sourcePath: job.sourceImageBase64 ? `/api/jobs/${job.id}/source` : undefined,
+    model:
+      job.result && "glbBase64" in job.result
+        ? { path: `/api/jobs/${job.id}/model`, glbUrl: job.result.glbUrl }
+        : undefined,
+  };
+}
+
+/**
+ * Drop the frame images of events a client has confirmed by resuming after
+ * them; replays of those events carry only the frame's metadata
+ */
+function releaseFramePayloads(job: Job, lastEventId: number): void {
+  for (const entry of job.events) {
+    if (entry.id > lastEventId) break;
+    if (entry.event.type === "progress" && entry.event.imageBase64 !== undefined) {
+      entry.event = { ...entry.event, imageBase64: undefined };
+    }
+  }
+}
+
+/**
+ * SSE stream of a job's events after lastEventId, following live events
+ * until a terminal event is sent
+ */
+export function createJobStream(job: Job, lastEventId = 0): ReadableStream<Uint8Array> {
+  let unsubscribe = () => {};
+  releaseFramePayloads(job, lastEventId);
+
+  const subscribe = (listener: JobListener) => {
+    clearTimeout(job.abandonTimer);
+    job.listeners.add(listener);
+
+    return () => {
+      job.listeners.delete(listener);
+      if (job.listeners.size === 0 && job.status === "running") {
+        job.abandonTimer = setTimeout(() => cancelJob(job), ABANDON_TIMEOUT_MS);
+      }
+    };
+  };
+
+  return new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: StreamEvent, id: number) => {
+        if (closed || id <= lastEventId) return;
+        lastEventId = id;
+        controller.enqueue(encodeSSE(event, id));
+        if (isTerminalEvent(event)) {
+          closed = true;
+          unsubscribe();
+          controller.close();
+        }
+      };
+
+      // Subscribe before replaying so nothing is missed in between
+      unsubscribe = subscribe(send);
+
+      for (const { id, event } of job.events) {
+        send(event, id);
+      }
+
+      // Client already saw the terminal event
+      if (!closed && job.status !== "running") {
+        closed = true;
+        unsubscribe();
+        controller.close();
+      }
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+}
+
+/**
+ * Parse the resume position from a Last-Event-ID header or query param
+ */
+export function parseLastEventId(request: Request): number {
+  const header = request.headers.get("Last-Event-ID");
+  const query = new URL(request.url).searchParams.get("lastEventId");
+  const value = Number(header ?? query ?? 0);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
@@ -0,0 +1,120 @@
+import type { VisemeId } from "./types";
+
+/**
+ * Browser-side lip-sync. Each animation frame the playing audio is reduced to
+ * its loudness and the balance between the first two formant bands, which is
+ * enough to tell closed, open, wide and rounded mouth shapes apart.
+ */
+
+export const LIPSYNC_THRESHOLDS = {
+  SILENCE: 0.02, // RMS below which the mouth is closed
+  LOUD: 0.1, // RMS above which vowels get the wide-open frame
+  FRONT_VOWEL: 0.8, // F2/F1 energy ratio above which the mouth is wide (E, I)
+  ROUND_VOWEL: 0.3, // F2/F1 energy ratio below which the mouth is rounded (O, U)
+  HOLD_MS: 70, // Minimum time a viseme stays on screen, to avoid flicker
+};
+
+// Frequency ranges (Hz) that roughly cover the first and second formants
+export const FORMANT_BANDS = {
+  F1: [250, 900],
+  F2: [1200, 3000],
+};
+
+export interface AudioFeatures {
+  rms: number;
+  f1: number; // Mean F1 band magnitude, 0-1
+  f2: number; // Mean F2 band magnitude, 0-1
+}
+
+/**
+ * Mean byte magnitude of the FFT bins within a frequency range, scaled to 0-1
+ */
+function bandEnergy(freqData: Uint8Array, binHz: number, [low, high]: number[]): number {
+  const start = Math.floor(low / binHz);
+  const end = Math.min(Math.ceil(high / binHz), freqData.length);
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += freqData[i];
+  return end > start ? sum / (end - start) / 255 : 0;
+}
+
+/**
+ * Sample the analyser's current loudness and formant band energies
+ */
+export function measureAudio(
+  analyser: AnalyserNode,
+  timeData: Float32Array<ArrayBuffer>,
+  freqData: Uint8Array<ArrayBuffer>
+): AudioFeatures {
+  analyser.getFloatTimeDomainData(timeData);
+  analyser.getByteFrequencyData(freqData);
+
+  let sumSquares = 0;
+  for (const sample of timeData) sumSquares += sample * sample;
+
+  const binHz = analyser.context.sampleRate / analyser.fftSize;
+  return {
+    rms: Math.sqrt(sumSquares / timeData.length),
+    f1: bandEnergy(freqData, binHz, FORMANT_BANDS.F1),
+    f2: bandEnergy(freqData, binHz, FORMANT_BANDS.F2),
+  };
+}
+
+/**
+ * Map audio features to a mouth shape
+ */
+export function pickViseme({ rms, f1, f2 }: AudioFeatures): VisemeId {
+  if (rms < LIPSYNC_THRESHOLDS.SILENCE) return "closed";
+  const ratio = f2 / Math.max(f1, 1e-6);
+  if (ratio > LIPSYNC_THRESHOLDS.FRONT_VOWEL) return "eee";
+  if (ratio < LIPSYNC_THRESHOLDS.ROUND_VOWEL) return "ooo";
+  return rms > LIPSYNC_THRESHOLDS.LOUD ? "aaa" : "small";
+}
+
+export interface LipSync {
+  dispose: () => void;
+}
+
+/**
+ * Drive viseme changes from an audio element while it plays. The element's
+ * output is routed through the analyser, so it stays audible.
+ */
+export function createLipSync(
+  audio: HTMLAudioElement,
+  onViseme: (viseme: VisemeId) => void
+): LipSync {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.5;
+  context.createMediaElementSource(audio).connect(analyser);
+  analyser.connect(context.destination);
+
+  const timeData = new Float32Array(analyser.fftSize);
+  const freqData = new Uint8Array(analyser.frequencyBinCount);
+  let current: VisemeId = "closed";
+  let changedAt = 0;
+  let frame = 0;
+
+  const tick = (now: number) => {
+    const next = audio.paused ? "closed" : pickViseme(measureAudio(analyser, timeData, freqData));
+    if (next !== current && now - changedAt >= LIPSYNC_THRESHOLDS.HOLD_MS) {
+      current = next;
+      changedAt = now;
+      onViseme(next);
+    }
+    frame = requestAnimationFrame(tick);
+  };
+
+  // Autoplay policy suspends contexts created before a user gesture
+  const resume = () => context.resume();
+  audio.addEventListener("play", resume);
+  frame = requestAnimationFrame(tick);
+
+  return {
+    dispose: () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener("play", resume);
+      context.close();
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { blobToBase64, loadPipeline } from "./transformers";
+import type { FrameMimeType } from "./types";
+
+/**
+ * Browser-side background removal with a portrait matting model run through
+ * transformers.js. Produces frames with an alpha channel so avatars can sit on
+ * any page colour.
+ */
+
+// Loaded lazily: the model is fetched from the Hugging Face Hub on first use
+const MATTING_MODEL = "Xenova/modnet";
+const WEBP_QUALITY = 0.9;
+
+interface MattedImage {
+  toBlob(type?: string, quality?: number): Promise<Blob>;
+}
+
+type BackgroundRemover = (image: string) => Promise<MattedImage[]>;
+
+/**
+ * Remove the background of an image, returning base64 in the requested format
+ */
+export async function removeBackground(
+  imageBase64: string,
+  outputType: FrameMimeType = "image/png",
+  inputType: FrameMimeType = "image/png"
+): Promise<string> {
+  const remover = await loadPipeline<BackgroundRemover>("background-removal", MATTING_MODEL);
+  const [matted] = await remover(`data:${inputType};base64,${imageBase64}`);
+  const blob = await matted.toBlob(outputType, WEBP_QUALITY);
+  return blobToBase64(blob);
+}
@@ -0,0 +1,101 @@
+/**
+ * WebGL renderer for depth-based 2.5D parallax: each pixel of the image is
+ * shifted by the pointer offset scaled by its depth, so near features move
+ * more than far ones. The shaders are shared with the HTML export.
+ */
+
+export const PARALLAX_VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+export const PARALLAX_FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_image;
+uniform sampler2D u_depth;
+uniform vec2 u_offset;
+varying vec2 v_uv;
+void main() {
+  float depth = texture2D(u_depth, v_uv).r;
+  vec2 uv = v_uv - u_offset * (depth - 0.5);
+  gl_FragColor = texture2D(u_image, clamp(uv, 0.0, 1.0));
+}`;
+
+export interface ParallaxRenderer {
+  /** Draw with the pointer at (x, y) in -1..1, shifting by up to `strength` of the width */
+  draw(x: number, y: number, strength: number): void;
+  dispose(): void;
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) || "Shader compilation failed");
+  }
+  return shader;
+}
+
+function createTexture(gl: WebGLRenderingContext, unit: number, source: TexImageSource) {
+  const texture = gl.createTexture();
+  gl.activeTexture(gl.TEXTURE0 + unit);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // Clamp and linear filtering keep non-power-of-two images valid in WebGL 1
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  return texture;
+}
+
+/**
+ * Set up a parallax renderer on a canvas for an image and its depth map
+ */
+export function createParallaxRenderer(
+  canvas: HTMLCanvasElement,
+  image: TexImageSource,
+  depth: TexImageSource
+): ParallaxRenderer {
+  const gl = canvas.getContext("webgl", { premultipliedAlpha: false });
+  if (!gl) throw new Error("WebGL is not supported");
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, PARALLAX_VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, PARALLAX_FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || "Shader link failed");
+  }
+  gl.useProgram(program);
+
+  // Full-screen quad as a triangle strip
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const textures = [createTexture(gl, 0, image), createTexture(gl, 1, depth)];
+  gl.uniform1i(gl.getUniformLocation(program, "u_image"), 0);
+  gl.uniform1i(gl.getUniformLocation(program, "u_depth"), 1);
+  const offset = gl.getUniformLocation(program, "u_offset");
+
+  return {
+    draw(x, y, strength) {
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.uniform2f(offset, x * strength, y * strength);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+    dispose() {
+      textures.forEach((texture) => gl.deleteTexture(texture));
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    },
+  };
+}
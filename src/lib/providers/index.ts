@@ -0,0 +1,24 @@
+import { createReplicateProvider } from "./replicate";
+import { createMockProvider } from "./mock";
+import type { GenerationProvider, ProviderName } from "./types";
+
+export type * from "./types";
+
+/**
+ * Resolve the provider name from AVATAR_PROVIDER (defaults to replicate)
+ */
+export function getProviderName(): ProviderName {
+  const name = process.env.AVATAR_PROVIDER?.trim().toLowerCase() || "replicate";
+  if (name !== "replicate" && name !== "mock") {
+    throw new Error(`Unknown AVATAR_PROVIDER "${name}"`);
+  }
+  return name;
+}
+
+/**
+ * Get the generation provider selected by the environment
+ * @throws Error if the provider is unknown or not configured
+ */
+export function getProvider(): GenerationProvider {
+  return getProviderName() === "mock" ? createMockProvider() : createReplicateProvider();
+}
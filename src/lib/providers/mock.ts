@@ -0,0 +1,377 @@
+import { deflateSync } from "zlib";
+import type {
+  GenerationProvider,
+  StylizeOptions,
+  InpaintOptions,
+  GenerateImageOptions,
+  GenerateModelOptions,
+  GenerateModelResult,
+} from "./types";
+
+/**
+ * Offline provider that synthesizes deterministic placeholder output.
+ * Useful for developing and demoing the pipeline without a Replicate token.
+ */
+
+const FRAME_SIZE = 512;
+
+/**
+ * Optional artificial latency so progress UI can be exercised
+ */
+function getLatencyMs(): number {
+  const value = Number(process.env.MOCK_PROVIDER_LATENCY_MS);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+async function simulateLatency(signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  const ms = getLatencyMs();
+  if (ms > 0) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+    });
+  }
+}
+
+/**
+ * Stable 32-bit FNV-1a hash of a string, sampled for large inputs
+ */
+function hashString(value: string): number {
+  const sample =
+    value.length > 4096 ? value.slice(0, 2048) + value.slice(-2048) + value.length : value;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < sample.length; i++) {
+    hash ^= sample.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+type Rgb = [number, number, number];
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+/**
+ * CRC-32 as required by PNG chunks
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type RGBA
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Read the dimensions from a PNG header, or null for other formats
+ */
+function readPngSize(png: Buffer): { width: number; height: number } | null {
+  if (png.length < 24 || png.toString("ascii", 12, 16) !== "IHDR") return null;
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+interface PlaceholderOptions {
+  width: number;
+  height: number;
+  seed: number;
+  yaw?: number;
+  pitch?: number;
+  pupilX?: number;
+  pupilY?: number;
+  blink?: number;
+  wink?: number;
+  smile?: number;
+  aaa?: number;
+  eee?: number;
+  woo?: number;
+}
+
+/**
+ * Draw a simple cartoon head on black whose pose and expression follow the step
+ */
+function renderPlaceholder(options: PlaceholderOptions): Buffer {
+  const {
+    width,
+    height,
+    seed,
+    yaw = 0,
+    pitch = 0,
+    pupilX = 0,
+    pupilY = 0,
+    blink = 0,
+    wink = 0,
+    smile = 0,
+    aaa = 0,
+    eee = 0,
+    woo = 0,
+  } = options;
+  const size = Math.min(width, height);
+  const skin = hslToRgb(seed % 360, 0.55, 0.62);
+  const eyeWhite: Rgb = [245, 245, 245];
+  const pupil = hslToRgb((seed >>> 9) % 360, 0.6, 0.2);
+
+  const headX = width / 2 + yaw * size * 0.006;
+  const headY = height / 2 + pitch * size * 0.006;
+  const headR = size * 0.3;
+  const eyeOffsetX = size * 0.1;
+  const eyeY = headY - size * 0.04;
+  const eyeR = size * 0.05;
+  const pupilR = size * 0.022;
+  const pupilShiftX = (pupilX / 15) * size * 0.025;
+  const pupilShiftY = (pupilY / 15) * size * 0.025;
+  // Closed eyes become a line; wink closes the right one
+  const closed = (side: number) => blink <= -10 || (side === 1 && wink >= 12);
+  const lidR = size * 0.006;
+  const mouthY = headY + size * 0.12;
+  // Wide for eee, narrow for woo
+  const mouthW = size * (0.06 + Math.max(0, smile) * 0.05) * (1 + eee / 30) * (1 - woo / 30);
+  const mouthH = size * Math.max(0, aaa) * 0.0008;
+  const mouthCurve = size * 0.015 * smile;
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color: Rgb = [0, 0, 0];
+
+      if ((x - headX) ** 2 + (y - headY) ** 2 <= headR ** 2) {
+        color = skin;
+        for (const side of [-1, 1]) {
+          const ex = headX + side * eyeOffsetX;
+          if (closed(side)) {
+            if (Math.abs(x - ex) <= eyeR && Math.abs(y - eyeY) <= lidR) color = pupil;
+          } else if ((x - ex) ** 2 + (y - eyeY) ** 2 <= eyeR ** 2) {
+            color = eyeWhite;
+            const px = ex + pupilShiftX;
+            const py = eyeY + pupilShiftY;
+            if ((x - px) ** 2 + (y - py) ** 2 <= pupilR ** 2) {
+              color = pupil;
+            }
+          }
+        }
+
+        // Mouth only for expression frames: an open oval, or a curve that bends up with the smile
+        const mx = (x - headX) / mouthW;
+        if (mouthH > 0 && mx ** 2 + ((y - mouthY) / mouthH) ** 2 <= 1) {
+          color = pupil;
+        } else if (smile > 0.3 && Math.abs(mx) <= 1 && Math.abs(y - (mouthY + mouthCurve * (1 - mx ** 2))) <= lidR) {
+          color = pupil;
+        }
+      }
+
+      const offset = (y * width + x) * 4;
+      rgba[offset] = color[0];
+      rgba[offset + 1] = color[1];
+      rgba[offset + 2] = color[2];
+      rgba[offset + 3] = 255;
+    }
+  }
+
+  return encodePng(width, height, rgba);
+}
+
+/**
+ * Build a minimal valid GLB containing a single coloured octahedron
+ */
+export function encodePlaceholderGlb(seed: number): Buffer {
+  const [r, g, b] = hslToRgb(seed % 360, 0.55, 0.62);
+
+  const positions = new Float32Array([
+    0.5, 0, 0, -0.5, 0, 0, 0, 0.7, 0, 0, -0.7, 0, 0, 0, 0.5, 0, 0, -0.5,
+  ]);
+  const indices = new Uint16Array([
+    0, 2, 4, 4, 2, 1, 1, 2, 5, 5, 2, 0, 4, 3, 0, 1, 3, 4, 5, 3, 1, 0, 3, 5,
+  ]);
+  const bin = Buffer.concat([
+    Buffer.from(positions.buffer),
+    Buffer.from(indices.buffer),
+  ]);
+
+  const gltf = {
+    asset: { version: "2.0", generator: "avatar-3d mock provider" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1, material: 0 }] }],
+    materials: [
+      {
+        pbrMetallicRoughness: {
+          baseColorFactor: [r / 255, g / 255, b / 255, 1],
+          metallicFactor: 0,
+          roughnessFactor: 0.6,
+        },
+      },
+    ],
+    buffers: [{ byteLength: bin.length }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: positions.byteLength, target: 34962 },
+      {
+        buffer: 0,
+        byteOffset: positions.byteLength,
+        byteLength: indices.byteLength,
+        target: 34963,
+      },
+    ],
+    accessors: [
+      {
+        bufferView: 0,
+        componentType: 5126,
+        count: positions.length / 3,
+        type: "VEC3",
+        min: [-0.5, -0.7, -0.5],
+        max: [0.5, 0.7, 0.5],
+      },
+      { bufferView: 1, componentType: 5123, count: indices.length, type: "SCALAR" },
+    ],
+  };
+
+  // Chunks must be 4-byte aligned: JSON pads with spaces, BIN with zeros
+  let json = Buffer.from(JSON.stringify(gltf), "utf8");
+  json = Buffer.concat([json, Buffer.alloc((4 - (json.length % 4)) % 4, 0x20)]);
+  const paddedBin = Buffer.concat([bin, Buffer.alloc((4 - (bin.length % 4)) % 4)]);
+
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(0x46546c67, 0); // "glTF"
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(12 + 8 + json.length + 8 + paddedBin.length, 8);
+
+  const jsonHeader = Buffer.alloc(8);
+  jsonHeader.writeUInt32LE(json.length, 0);
+  jsonHeader.writeUInt32LE(0x4e4f534a, 4); // "JSON"
+
+  const binHeader = Buffer.alloc(8);
+  binHeader.writeUInt32LE(paddedBin.length, 0);
+  binHeader.writeUInt32LE(0x004e4942, 4); // "BIN\0"
+
+  return Buffer.concat([header, jsonHeader, json, binHeader, paddedBin]);
+}
+
+/**
+ * Create the offline mock provider
+ */
+export function createMockProvider(): GenerationProvider {
+  return {
+    name: "mock",
+
+    async stylize({ imageBase64, prompt, aspectRatio, variant = 0, signal }: StylizeOptions): Promise<Buffer> {
+      await simulateLatency(signal);
+      const [ratioWidth, ratioHeight] = aspectRatio.split(":").map(Number);
+      const height = FRAME_SIZE;
+      const width = Math.round((FRAME_SIZE * ratioWidth) / ratioHeight);
+      // Hosted models vary between runs; vary candidates so the mock does too
+      return renderPlaceholder({ width, height, seed: hashString(imageBase64 + prompt + variant) });
+    },
+
+    async inpaint({ imageBase64, maskBase64, prompt, signal }: InpaintOptions): Promise<Buffer> {
+      await simulateLatency(signal);
+      // Keep the source size so the result can stand in for it
+      const { width, height } = readPngSize(Buffer.from(imageBase64, "base64")) ?? {
+        width: FRAME_SIZE,
+        height: FRAME_SIZE,
+      };
+      return renderPlaceholder({ width, height, seed: hashString(imageBase64 + maskBase64 + prompt) });
+    },
+
+    async generateFrame(options: GenerateImageOptions): Promise<Buffer> {
+      await simulateLatency(options.signal);
+      return renderPlaceholder({
+        width: FRAME_SIZE,
+        height: FRAME_SIZE,
+        seed: hashString(options.imageBase64),
+        yaw: options.rotate_yaw,
+        pitch: options.rotate_pitch,
+        pupilX: options.pupil_x,
+        pupilY: options.pupil_y,
+        blink: options.blink,
+        wink: options.wink,
+        smile: options.smile,
+        aaa: options.aaa,
+        eee: options.eee,
+        woo: options.woo,
+      });
+    },
+
+    async generateModel({
+      imageBase64,
+      extraViews = [],
+      seed,
+      signal,
+      onProgress,
+    }: GenerateModelOptions): Promise<GenerateModelResult> {
+      onProgress?.({ status: "starting" });
+      await simulateLatency(signal);
+
+      // Walk through a fake sampling run so progress UI has something to show
+      for (let percent = 0; percent <= 100; percent += 25) {
+        onProgress?.({ status: "processing", percent, logs: `Sampling: ${percent}%` });
+        await simulateLatency(signal);
+      }
+
+      onProgress?.({ status: "succeeded", percent: 100 });
+      return { glb: encodePlaceholderGlb(hashString(imageBase64 + extraViews.length + seed)) };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import {
+  getReplicateClient,
+  stylizeImage,
+  inpaintImage,
+  generateImage,
+  generateModel,
+} from "@/lib/replicate";
+import type { GenerationProvider } from "./types";
+
+/**
+ * Provider backed by the hosted Replicate models
+ * @throws Error if REPLICATE_API_TOKEN is not set
+ */
+export function createReplicateProvider(): GenerationProvider {
+  // Fail fast on missing credentials instead of mid-stream
+  getReplicateClient();
+
+  return {
+    name: "replicate",
+    stylize: stylizeImage,
+    inpaint: inpaintImage,
+    generateFrame: generateImage,
+    generateModel,
+  };
+}
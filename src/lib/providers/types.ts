@@ -0,0 +1,86 @@
+import type {
+  PredictionProgress,
+  ModelSamplingParams,
+  AspectRatio,
+  ExpressionParams,
+} from "@/lib/types";
+
+/**
+ * Generation provider contract shared by the API routes
+ */
+
+/**
+ * Options for stylizing an uploaded photo
+ */
+export interface StylizeOptions {
+  imageBase64: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  variant?: number; // Index among parallel candidates for the same prompt
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for repainting a masked area of a stylized image
+ */
+export interface InpaintOptions {
+  imageBase64: string;
+  maskBase64: string; // White marks the area to repaint
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for generating expression-edited images
+ */
+export interface GenerateImageOptions extends ExpressionParams {
+  imageBase64: string;
+  rotate_yaw: number;
+  rotate_pitch: number;
+  pupil_x: number;
+  pupil_y: number;
+  crop_factor?: number;
+  output_quality?: number;
+  src_ratio?: number;
+  sample_ratio?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for image-to-3D generation
+ */
+export interface GenerateModelOptions {
+  imageBase64: string;
+  extraViews?: string[]; // Additional angles of the same character (base64)
+  textureSize: number;
+  meshQuality: number;
+  seed: number;
+  sampling: ModelSamplingParams;
+  signal?: AbortSignal;
+  onProgress?: (progress: PredictionProgress) => void;
+}
+
+/**
+ * Result of image-to-3D generation
+ */
+export interface GenerateModelResult {
+  glb: Buffer;
+  glbUrl?: string;
+}
+
+/**
+ * A backend able to run the three pipeline stages
+ */
+export interface GenerationProvider {
+  name: ProviderName;
+  /** Stylize a photo into a character (preprocess stage) */
+  stylize(options: StylizeOptions): Promise<Buffer>;
+  /** Repaint the masked area of a stylized image */
+  inpaint(options: InpaintOptions): Promise<Buffer>;
+  /** Render a single head-rotation frame */
+  generateFrame(options: GenerateImageOptions): Promise<Buffer>;
+  /** Turn a stylized image into a GLB model */
+  generateModel(options: GenerateModelOptions): Promise<GenerateModelResult>;
+}
+
+export type ProviderName = "replicate" | "mock";
@@ -0,0 +1,103 @@
+import { decodeBase64Image } from "./adjust";
+import { adjacentCells } from "./constants";
+import type { FrameLayout, FramePair, GeneratedImage } from "./types";
+
+/**
+ * Browser-side adaptive refinement. Neighbouring frames are compared as small
+ * greyscale thumbnails, and the pairs that jump the most get an in-between
+ * frame halfway between their angles.
+ */
+
+export const REFINE_SETTINGS = {
+  THUMBNAIL_SIZE: 32,
+  THRESHOLD: 0.06, // Mean luma difference (0-1) above which a pair is split
+  MAX_PER_PASS: 16,
+};
+
+/**
+ * Luma of a frame scaled down to a square thumbnail, weighted by alpha so
+ * matted frames compare on the character rather than the hidden background
+ */
+async function lumaThumbnail(imageBase64: string): Promise<Float32Array> {
+  const size = REFINE_SETTINGS.THUMBNAIL_SIZE;
+  const bitmap = await decodeBase64Image(imageBase64);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, size, size);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const luma = new Float32Array(size * size);
+  for (let i = 0; i < luma.length; i++) {
+    const [r, g, b, a] = data.subarray(i * 4, i * 4 + 4);
+    luma[i] = ((0.299 * r + 0.587 * g + 0.114 * b) / 255) * (a / 255);
+  }
+  return luma;
+}
+
+/**
+ * Mean absolute difference between two thumbnails, 0-1
+ */
+export function frameDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+/**
+ * Neighbouring frames of a refined set: the layout's neighbours, with each
+ * refined pair replaced by its two halves through the refinement frame
+ */
+export function refinementEdges(
+  layout: FrameLayout,
+  refinements: FramePair[],
+  baseCount: number
+): FramePair[] {
+  const key = ([a, b]: FramePair) => `${Math.min(a, b)}-${Math.max(a, b)}`;
+  const edges = new Map(adjacentCells(layout).map((pair) => [key(pair), pair]));
+
+  refinements.forEach((pair, k) => {
+    const middle = baseCount + k;
+    edges.delete(key(pair));
+    edges.set(key([pair[0], middle]), [pair[0], middle]);
+    edges.set(key([middle, pair[1]]), [middle, pair[1]]);
+  });
+
+  return [...edges.values()];
+}
+
+/**
+ * Neighbouring frames that differ by more than the threshold, largest jump
+ * first. Pairs with a missing frame are skipped; Retry fills those in first.
+ */
+export async function findRefinementPairs(
+  images: GeneratedImage[],
+  layout: FrameLayout,
+  refinements: FramePair[],
+  baseCount: number
+): Promise<FramePair[]> {
+  const byIndex = new Map(images.map((image, i) => [image.index ?? i, image.imageBase64]));
+  const thumbnails = new Map<number, Promise<Float32Array>>();
+  const thumbnail = (index: number) => {
+    if (!thumbnails.has(index)) thumbnails.set(index, lumaThumbnail(byIndex.get(index)!));
+    return thumbnails.get(index)!;
+  };
+
+  const candidates = refinementEdges(layout, refinements, baseCount).filter(
+    ([a, b]) => byIndex.has(a) && byIndex.has(b)
+  );
+  const scored = await Promise.all(
+    candidates.map(async (pair) => ({
+      pair,
+      difference: frameDifference(await thumbnail(pair[0]), await thumbnail(pair[1])),
+    }))
+  );
+
+  return scored
+    .filter((entry) => entry.difference > REFINE_SETTINGS.THRESHOLD)
+    .sort((a, b) => b.difference - a.difference)
+    .slice(0, REFINE_SETTINGS.MAX_PER_PASS)
+    .map((entry) => entry.pair);
+}
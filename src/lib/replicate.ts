@@ -1,4 +1,14 @@
-import Replicate from "replicate";
+import Replicate, { parseProgressFromLogs, type Prediction } from "replicate";
+import type {
+  StylizeOptions,
+  InpaintOptions,
+  GenerateImageOptions,
+  GenerateModelOptions,
+  GenerateModelResult,
+} from "./providers/types";
+import type { PredictionProgress } from "./types";
+
+export type { GenerateImageOptions } from "./providers/types";
 
 /**
  * Model IDs for Replicate API
@@ -7,6 +17,7 @@ export const MODELS = {
   EXPRESSION_EDITOR:
     "fofr/expression-editor:bf913bc90e1c44ba288ba3942a538693b72e8cc7df576f3beebe56adc0a92b86",
   NANO_BANANA_PRO: "google/nano-banana",
+  FLUX_FILL: "black-forest-labs/flux-fill-pro",
   TRELLIS:
     "firtoz/trellis:e8f6c45206993f297372f5436b90350817bd9b4a0d52d2a76df50c1c8afa2b3c",
 } as const;
@@ -36,8 +47,8 @@ export function toDataUri(base64: string, mimeType = "image/png"): string {
 /**
  * Fetch a URL and return as Buffer
  */
-export async function fetchAsBuffer(url: string): Promise<Buffer> {
-  const response = await fetch(url);
+export async function fetchAsBuffer(url: string, signal?: AbortSignal): Promise<Buffer> {
+  const response = await fetch(url, { signal });
   if (!response.ok) {
     throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
   }
@@ -69,21 +80,6 @@ export async function streamToBuffer(stream: ReadableStream<Uint8Array>): Promis
   return Buffer.from(result);
 }
 
-/**
- * Options for generating expression-edited images
- */
-export interface GenerateImageOptions {
-  imageBase64: string;
-  rotate_yaw: number;
-  rotate_pitch: number;
-  pupil_x: number;
-  pupil_y: number;
-  crop_factor?: number;
-  output_quality?: number;
-  src_ratio?: number;
-  sample_ratio?: number;
-}
-
 /**
  * Generate an image with expression editor model
  */
@@ -100,6 +96,14 @@ export async function generateImage(options: GenerateImageOptions): Promise<Buff
     output_quality = 100,
     src_ratio = 1,
     sample_ratio = 1,
+    blink,
+    wink,
+    eyebrow,
+    smile,
+    aaa,
+    eee,
+    woo,
+    signal,
   } = options;
 
   const output = await replicate.run(MODELS.EXPRESSION_EDITOR, {
@@ -113,16 +117,27 @@ export async function generateImage(options: GenerateImageOptions): Promise<Buff
       output_quality,
       src_ratio,
       sample_ratio,
+      blink,
+      wink,
+      eyebrow,
+      smile,
+      aaa,
+      eee,
+      woo,
       output_format: "png",
     },
+    signal,
   });
 
+  // run() cancels the prediction and resolves when aborted
+  signal?.throwIfAborted();
+
   // Handle various output formats from Replicate
   if (Array.isArray(output) && output.length > 0) {
     const item = output[0];
 
     if (typeof item === "string") {
-      return fetchAsBuffer(item);
+      return fetchAsBuffer(item, signal);
     }
 
     if (item instanceof ReadableStream) {
@@ -131,7 +146,7 @@ export async function generateImage(options: GenerateImageOptions): Promise<Buff
   }
 
   if (typeof output === "string") {
-    return fetchAsBuffer(output);
+    return fetchAsBuffer(output, signal);
   }
 
   if (output instanceof ReadableStream) {
@@ -145,7 +160,8 @@ export async function generateImage(options: GenerateImageOptions): Promise<Buff
  * Handle Replicate FileOutput or URL response
  */
 export async function handleReplicateOutput(
-  output: unknown
+  output: unknown,
+  signal?: AbortSignal
 ): Promise<Buffer> {
   // FileOutput object with url() method
   if (
@@ -155,18 +171,117 @@ export async function handleReplicateOutput(
     typeof (output as { url: () => string }).url === "function"
   ) {
     const url = (output as { url: () => string }).url();
-    return fetchAsBuffer(url);
+    return fetchAsBuffer(url, signal);
   }
 
   // Direct URL string
   if (typeof output === "string") {
-    return fetchAsBuffer(output);
+    return fetchAsBuffer(output, signal);
   }
 
   // Array of outputs
   if (Array.isArray(output) && output.length > 0) {
-    return handleReplicateOutput(output[0]);
+    return handleReplicateOutput(output[0], signal);
   }
 
   throw new Error("Unexpected output format from model");
 }
+
+/**
+ * Stylize a photo with the Nano Banana image model
+ */
+export async function stylizeImage(options: StylizeOptions): Promise<Buffer> {
+  const replicate = getReplicateClient();
+
+  const output = await replicate.run(MODELS.NANO_BANANA_PRO, {
+    input: {
+      prompt: options.prompt,
+      image_input: [toDataUri(options.imageBase64)],
+      resolution: "2K",
+      aspect_ratio: options.aspectRatio,
+      output_format: "png",
+      safety_filter_level: "block_only_high",
+    },
+    signal: options.signal,
+  });
+
+  options.signal?.throwIfAborted();
+  return handleReplicateOutput(output, options.signal);
+}
+
+/**
+ * Repaint the masked area of an image with the Flux Fill model
+ */
+export async function inpaintImage(options: InpaintOptions): Promise<Buffer> {
+  const replicate = getReplicateClient();
+
+  const output = await replicate.run(MODELS.FLUX_FILL, {
+    input: {
+      prompt: options.prompt,
+      image: toDataUri(options.imageBase64),
+      mask: toDataUri(options.maskBase64),
+      output_format: "png",
+      safety_tolerance: 2,
+    },
+    signal: options.signal,
+  });
+
+  options.signal?.throwIfAborted();
+  return handleReplicateOutput(output, options.signal);
+}
+
+/**
+ * Summarize a polled prediction for progress reporting
+ */
+export function toPredictionProgress(prediction: Prediction): PredictionProgress {
+  const parsed = parseProgressFromLogs(prediction);
+  const lastLogLine = prediction.logs?.trim().split("\n").pop();
+
+  return {
+    status: prediction.status === "aborted" ? "canceled" : prediction.status,
+    percent: parsed ? Math.round(parsed.percentage * 100) : undefined,
+    logs: lastLogLine || undefined,
+  };
+}
+
+/**
+ * Generate a GLB model with Trellis
+ */
+export async function generateModel(
+  options: GenerateModelOptions
+): Promise<GenerateModelResult> {
+  const replicate = getReplicateClient();
+  const { onProgress, sampling } = options;
+
+  const output = await replicate.run(MODELS.TRELLIS, {
+    input: {
+      seed: options.seed,
+      images: [options.imageBase64, ...(options.extraViews ?? [])].map((image) => toDataUri(image)),
+      texture_size: options.textureSize,
+      mesh_simplify: options.meshQuality,
+      generate_color: true,
+      generate_model: true,
+      randomize_seed: false,
+      generate_normal: true,
+      ss_sampling_steps: sampling.ssSamplingSteps,
+      slat_sampling_steps: sampling.slatSamplingSteps,
+      ss_guidance_strength: sampling.ssGuidanceStrength,
+      slat_guidance_strength: sampling.slatGuidanceStrength,
+    },
+    // Poll rather than block so status and logs can be reported while it runs
+    wait: { mode: "poll", interval: 1000 },
+    signal: options.signal,
+  }, onProgress && ((prediction) => onProgress(toPredictionProgress(prediction))));
+
+  options.signal?.throwIfAborted();
+
+  const outputObj = output as Record<string, unknown>;
+  const glbUrl = outputObj.model_file as string;
+
+  if (!glbUrl) {
+    throw new Error("No 3D model found in output");
+  }
+
+  const glb = await fetchAsBuffer(glbUrl, options.signal);
+  return { glb, glbUrl };
+}
@@ -0,0 +1,138 @@
+import type { StreamEvent } from "./types";
+
+/**
+ * Server-sent event helpers shared by the API routes and the client
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode an event as an SSE message, tagged with an id for resumption
+ */
+export function encodeSSE(data: StreamEvent | Record<string, unknown>, id?: number): Uint8Array {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return encoder.encode(`${idLine}data: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+} as const;
+
+// Names a new job on its stream's response, before any event has been read
+export const JOB_ID_HEADER = "X-Job-Id";
+
+/**
+ * Read an SSE response body, invoking the handler for each event.
+ * Errors thrown by the handler propagate to the caller.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent, id: number | null) => void | Promise<void>
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response stream");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+
+    for (const message of messages) {
+      let id: number | null = null;
+      let data = "";
+
+      for (const line of message.split("\n")) {
+        if (line.startsWith("id: ")) {
+          id = Number(line.slice(4));
+        } else if (line.startsWith("data: ")) {
+          data += line.slice(6);
+        }
+      }
+      if (!data) continue;
+
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(data) as StreamEvent;
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      await onEvent(event, id);
+    }
+  }
+}
+
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Follow a job's event stream until a terminal event, reconnecting with
+ * Last-Event-ID when the connection drops. Resolves on complete or cancelled,
+ * rejects on an error event, on abort, or when reconnecting gives up.
+ */
+export async function followJobStream({
+  response: initialResponse,
+  signal,
+  onEvent,
+  onReconnect,
+}: {
+  response: Response;
+  signal: AbortSignal;
+  onEvent: (event: StreamEvent) => void | Promise<void>;
+  onReconnect?: (attempt: number) => void;
+}): Promise<void> {
+  let jobId: string | null = null;
+  let lastEventId = 0;
+  let finished = false;
+  let reconnects = 0;
+  let response: Response | null = initialResponse;
+
+  while (!finished) {
+    try {
+      if (!response) {
+        response = await fetch(`/api/jobs/${jobId}/stream`, {
+          headers: { "Last-Event-ID": String(lastEventId) },
+          signal,
+        });
+        if (response.status === 404) {
+          finished = true;
+          throw new Error("Generation job expired");
+        }
+      }
+
+      await readEventStream(response, async (event, id) => {
+        if (id !== null) lastEventId = id;
+        if (event.type === "config") jobId = event.config.jobId;
+        // The connection is healthy again, so a later drop starts a fresh backoff
+        reconnects = 0;
+
+        if (event.type === "complete" || event.type === "cancelled" || event.type === "error") {
+          finished = true;
+        }
+        await onEvent(event);
+        if (event.type === "error") throw new Error(event.error);
+      });
+    } catch (err) {
+      if (finished || signal.aborted) throw err;
+    }
+
+    if (finished) break;
+    if (!jobId || reconnects >= MAX_RECONNECTS) {
+      throw new Error("Connection lost");
+    }
+
+    reconnects++;
+    response = null;
+    onReconnect?.(reconnects);
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * reconnects));
+  }
+}
@@ -1,3 +1,20 @@
+import type {
+  FrameMimeType,
+  GenerationMode,
+  ModelSamplingParams,
+  ModelView,
+  StylePresetId,
+  PreprocessMode,
+  PromptAttributes,
+  ImageAdjustments,
+  ExpressionLayerId,
+  ExpressionTrigger,
+  GridAngles,
+  GridType,
+  FrameLayout,
+  FramePair,
+} from "./types";
+
 /**
  * IndexedDB storage for persisting user data
  * Uses IndexedDB instead of localStorage for larger storage capacity (50MB+)
@@ -7,23 +24,58 @@ const DB_NAME = "avatar3d";
 const DB_VERSION = 1;
 const STORE_NAME = "renders";
 
+/**
+ * Which image of the parent render a restyle started from
+ */
+export type RestyleSource = "processed" | "original";
+
 export interface SavedRender {
   id: string;
   createdAt: number;
-  mode: "cursor" | "3d-model";
+  mode: GenerationMode;
   originalImageBase64: string;
   processedImageBase64: string;
   previewThumbnail: string;
   glbBase64?: string; // Now stored in IndexedDB
   generatedFrames?: string[]; // Base64 frames for cursor mode
+  frameIndices?: number[]; // Grid index of each entry in generatedFrames (gaps = failed frames)
   frameCount?: number;
+  frameMimeType?: FrameMimeType; // Set when frames were matted onto a transparent background
+  processedAlphaBase64?: string; // Matted copy of processedImageBase64, for display and export
+  rejectedCandidates?: string[]; // Stylization candidates passed over for processedImageBase64
+  depthBase64?: string; // Depth map of processedImageBase64 for parallax renders
+  parallaxStrength?: number;
   xSteps?: number;
   ySteps?: number;
+  expressions?: ExpressionLayerId[]; // Frame layers stored after the neutral grid
+  expressionTrigger?: ExpressionTrigger;
+  gridAngles?: GridAngles; // Missing means DEFAULT_GRID_ANGLES
+  gridType?: GridType; // Missing means head
+  eyeXSteps?: number; // Eye grid per head cell, for eyes grids
+  eyeYSteps?: number;
+  layout?: FrameLayout; // Missing means a grid of xSteps x ySteps
+  refinements?: FramePair[]; // Parents of the in-between frames stored after the base frames
+  upsampled?: boolean; // Frames sit on upsampleLayout(layout), see synthesizedIndices
+  synthesizedIndices?: number[]; // Frames interpolated in the browser rather than generated
   stylePrompt?: string;
+  styleId?: StylePresetId; // Missing on renders saved before presets existed (Pixar)
+  preprocessMode?: PreprocessMode; // Missing means stylize
+  promptAttributes?: PromptAttributes; // Prompt composer selections
+  imageAdjustments?: ImageAdjustments; // Canvas edits applied before generation
+  uneditedImageBase64?: string; // processedImageBase64 before the adjustments
+  // 3D model parameters, kept so a model can be reproduced
+  textureSize?: number;
+  meshQuality?: number;
+  seed?: number;
+  modelSampling?: ModelSamplingParams;
+  views?: ModelView[]; // Extra side/back views sent with the front image
+  // Restyle lineage
+  parentId?: string; // Render this one was restyled from; the parent may since have been pruned
+  restyleSource?: RestyleSource;
 }
 
 export interface UserSettings {
-  defaultMode: "cursor" | "3d-model";
+  defaultMode: GenerationMode;
   defaultXSteps: number;
   defaultYSteps: number;
   defaultTextureSize: number;
@@ -192,6 +244,45 @@ export async function saveRender(
   }
 }
 
+/**
+ * Update fields of an existing render, e.g. after filling in failed frames
+ */
+export async function updateRender(
+  id: string,
+  changes: Partial<Omit<SavedRender, "id" | "createdAt">>
+): Promise<SavedRender | null> {
+  try {
+    const db = await openDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const getRequest = store.get(id);
+
+      getRequest.onerror = () => reject(getRequest.error);
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as SavedRender | undefined;
+        if (!existing) {
+          resolve(null);
+          return;
+        }
+
+        const updated: SavedRender = { ...existing, ...changes };
+        const putRequest = store.put(updated);
+
+        putRequest.onerror = () => reject(putRequest.error);
+        putRequest.onsuccess = () => {
+          cachedRenders = cachedRenders.map((r) => (r.id === id ? updated : r));
+          resolve(updated);
+        };
+      };
+    });
+  } catch (err) {
+    console.error("Failed to update render:", err);
+    throw err;
+  }
+}
+
 /**
  * Delete a render from IndexedDB
  */
@@ -257,7 +348,25 @@ export function saveUserSettings(settings: UserSettings): void {
 }
 
 /**
- * Image cache for preprocessed images (session only)
+ * Track the in-flight frames job so a reloaded tab can resume it
+ */
+const ACTIVE_JOB_KEY = "avatar3d_active_job";
+
+export function getActiveJobId(): string | null {
+  if (typeof window === "undefined") return null;
+  return sessionStorage.getItem(ACTIVE_JOB_KEY);
+}
+
+export function setActiveJobId(jobId: string): void {
+  sessionStorage.setItem(ACTIVE_JOB_KEY, jobId);
+}
+
+export function clearActiveJobId(): void {
+  sessionStorage.removeItem(ACTIVE_JOB_KEY);
+}
+
+/**
+ * Image cache for preprocessed and touched-up images (session only)
  */
 const imageCache = new Map<string, string>();
 
@@ -266,7 +375,32 @@ const imageCache = new Map<string, string>();
  */
 async function hashImage(base64: string): Promise<string> {
   const sample = base64.slice(0, 100) + base64.slice(-100) + base64.length;
-  return btoa(sample).slice(0, 32);
+  return btoa(sample);
+}
+
+/**
+ * Settings that determine a preprocess result
+ */
+export interface PreprocessCacheOptions {
+  mode: Exclude<PreprocessMode, "passthrough">;
+  styleId: StylePresetId;
+  stylePrompt: string;
+  attributes: PromptAttributes;
+  fullBody: boolean;
+}
+
+/**
+ * Cache key for a preprocess of an image with the given settings
+ */
+async function preprocessCacheKey(
+  originalBase64: string,
+  { mode, styleId, stylePrompt, attributes, fullBody }: PreprocessCacheOptions
+): Promise<string> {
+  const imageKey = await hashImage(originalBase64);
+  // Cleanup ignores the style, so any preset can reuse it
+  const sortedAttributes = Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b));
+  const style = mode === "stylize" ? [styleId, stylePrompt.trim(), sortedAttributes] : [];
+  return JSON.stringify([imageKey, mode, ...style, fullBody]);
 }
 
 /**
@@ -274,10 +408,9 @@ async function hashImage(base64: string): Promise<string> {
  */
 export async function getCachedPreprocessed(
   originalBase64: string,
-  stylePrompt: string,
-  fullBody: boolean
+  options: PreprocessCacheOptions
 ): Promise<string | null> {
-  const key = await hashImage(originalBase64 + stylePrompt + fullBody);
+  const key = await preprocessCacheKey(originalBase64, options);
   return imageCache.get(key) || null;
 }
 
@@ -286,11 +419,10 @@ export async function getCachedPreprocessed(
  */
 export async function cachePreprocessed(
   originalBase64: string,
-  stylePrompt: string,
-  fullBody: boolean,
+  options: PreprocessCacheOptions,
   processedBase64: string
 ): Promise<void> {
-  const key = await hashImage(originalBase64 + stylePrompt + fullBody);
+  const key = await preprocessCacheKey(originalBase64, options);
   imageCache.set(key, processedBase64);
 
   if (imageCache.size > 10) {
@@ -298,3 +430,41 @@ export async function cachePreprocessed(
     if (firstKey) imageCache.delete(firstKey);
   }
 }
+
+/**
+ * Cache key for a touch-up of an image with the given mask and prompt
+ */
+async function inpaintCacheKey(imageBase64: string, maskBase64: string, prompt: string): Promise<string> {
+  const [imageKey, maskKey] = await Promise.all([hashImage(imageBase64), hashImage(maskBase64)]);
+  return JSON.stringify(["inpaint", imageKey, maskKey, prompt.trim()]);
+}
+
+/**
+ * Get cached touched-up image
+ */
+export async function getCachedInpainted(
+  imageBase64: string,
+  maskBase64: string,
+  prompt: string
+): Promise<string | null> {
+  const key = await inpaintCacheKey(imageBase64, maskBase64, prompt);
+  return imageCache.get(key) || null;
+}
+
+/**
+ * Cache a touched-up image
+ */
+export async function cacheInpainted(
+  imageBase64: string,
+  maskBase64: string,
+  prompt: string,
+  resultBase64: string
+): Promise<void> {
+  const key = await inpaintCacheKey(imageBase64, maskBase64, prompt);
+  imageCache.set(key, resultBase64);
+
+  if (imageCache.size > 10) {
+    const firstKey = imageCache.keys().next().value;
+    if (firstKey) imageCache.delete(firstKey);
+  }
+}
@@ -0,0 +1,297 @@
+import { DEFAULTS } from "./constants";
+import type {
+  PromptAttributeKey,
+  PromptAttributes,
+  PromptAttributeSummary,
+  StylePresetSummary,
+  ViewAngle,
+} from "./types";
+
+/**
+ * Server-side registry of stylization presets used by /api/preprocess.
+ * Prompt templates stay on the server; clients get summaries from /api/styles.
+ */
+
+interface StylePreset extends StylePresetSummary {
+  style: string; // What the character should look like
+  likeness: string; // What the person becomes, used in the likeness sentence
+}
+
+// Keeps output usable by the expression editor and Trellis regardless of style
+function buildFraming(expression = "neutral expression", background = "pure black"): string {
+  return `front facing, looking directly at camera, ${expression}, centered on ${background} background`;
+}
+
+const FRAMING = buildFraming();
+
+interface PromptAttribute extends Omit<PromptAttributeSummary, "options"> {
+  options: { id: string; label: string; prompt: string }[];
+}
+
+// Allowlist for the prompt composer; expression and background replace the framing defaults
+const PROMPT_ATTRIBUTES: PromptAttribute[] = [
+  {
+    key: "hair",
+    label: "Hair",
+    options: [
+      { id: "short", label: "Short", prompt: "with short neat hair" },
+      { id: "long", label: "Long", prompt: "with long flowing hair" },
+      { id: "curly", label: "Curly", prompt: "with voluminous curly hair" },
+      { id: "ponytail", label: "Ponytail", prompt: "with hair tied in a ponytail" },
+      { id: "bun", label: "Bun", prompt: "with hair in a top bun" },
+      { id: "buzz", label: "Buzz cut", prompt: "with a buzz cut" },
+      { id: "bald", label: "Bald", prompt: "with a bald head" },
+      { id: "dyed", label: "Dyed", prompt: "with vibrant dyed hair" },
+    ],
+  },
+  {
+    key: "glasses",
+    label: "Glasses",
+    options: [
+      { id: "round", label: "Round", prompt: "wearing round wire-framed glasses" },
+      { id: "square", label: "Square", prompt: "wearing thick square-framed glasses" },
+      { id: "sunglasses", label: "Sunglasses", prompt: "wearing dark sunglasses" },
+      { id: "none", label: "None", prompt: "not wearing glasses" },
+    ],
+  },
+  {
+    key: "headwear",
+    label: "Headwear",
+    options: [
+      { id: "cap", label: "Cap", prompt: "wearing a baseball cap" },
+      { id: "beanie", label: "Beanie", prompt: "wearing a knitted beanie" },
+      { id: "fedora", label: "Fedora", prompt: "wearing a fedora hat" },
+      { id: "crown", label: "Crown", prompt: "wearing a golden crown" },
+      { id: "headphones", label: "Headphones", prompt: "wearing over-ear headphones" },
+      { id: "none", label: "None", prompt: "bare-headed, no hat" },
+    ],
+  },
+  {
+    key: "outfit",
+    label: "Outfit",
+    options: [
+      { id: "hoodie", label: "Hoodie", prompt: "wearing a casual hoodie" },
+      { id: "suit", label: "Suit", prompt: "wearing a tailored suit and tie" },
+      { id: "t-shirt", label: "T-shirt", prompt: "wearing a plain t-shirt" },
+      { id: "leather-jacket", label: "Leather jacket", prompt: "wearing a leather jacket" },
+      { id: "sweater", label: "Sweater", prompt: "wearing a knitted sweater" },
+      { id: "armor", label: "Armor", prompt: "wearing ornate fantasy armor" },
+      { id: "lab-coat", label: "Lab coat", prompt: "wearing a white lab coat" },
+    ],
+  },
+  {
+    key: "palette",
+    label: "Colours",
+    options: [
+      { id: "pastel", label: "Pastel", prompt: "soft pastel colour palette" },
+      { id: "neon", label: "Neon", prompt: "glowing neon colour palette" },
+      { id: "earthy", label: "Earthy", prompt: "warm earthy colour palette" },
+      { id: "monochrome", label: "Monochrome", prompt: "monochrome colour palette" },
+      { id: "vibrant", label: "Vibrant", prompt: "bold saturated colour palette" },
+    ],
+  },
+  {
+    key: "expression",
+    label: "Expression",
+    options: [
+      { id: "neutral", label: "Neutral", prompt: "neutral expression" },
+      { id: "smile", label: "Smile", prompt: "gentle closed-mouth smile" },
+      { id: "grin", label: "Grin", prompt: "big cheerful grin" },
+      { id: "serious", label: "Serious", prompt: "serious determined expression" },
+      { id: "surprised", label: "Surprised", prompt: "surprised expression" },
+    ],
+  },
+  {
+    key: "background",
+    label: "Background",
+    options: [
+      { id: "black", label: "Black", prompt: "pure black" },
+      { id: "white", label: "White", prompt: "pure white" },
+      { id: "grey", label: "Grey", prompt: "neutral grey" },
+      { id: "blue", label: "Blue", prompt: "solid studio blue" },
+      { id: "green", label: "Green screen", prompt: "solid chroma key green" },
+    ],
+  },
+];
+
+function getAttributeOption(key: PromptAttributeKey, id: string | undefined) {
+  return PROMPT_ATTRIBUTES.find((attribute) => attribute.key === key)?.options.find(
+    (option) => option.id === id
+  );
+}
+
+/**
+ * Public summaries of the prompt composer attributes, without prompt fragments
+ */
+export function listPromptAttributes(): PromptAttributeSummary[] {
+  return PROMPT_ATTRIBUTES.map(({ key, label, options }) => ({
+    key,
+    label,
+    options: options.map(({ id, label }) => ({ id, label })),
+  }));
+}
+
+/**
+ * Check composer selections against the allowlist
+ * @returns An error message, or null when valid
+ */
+export function validatePromptAttributes(attributes: unknown): string | null {
+  if (typeof attributes !== "object" || attributes === null || Array.isArray(attributes)) {
+    return "attributes must be an object";
+  }
+  for (const [key, value] of Object.entries(attributes)) {
+    const attribute = PROMPT_ATTRIBUTES.find((a) => a.key === key);
+    if (!attribute) {
+      return `Unknown attribute: ${key}`;
+    }
+    if (!attribute.options.some((option) => option.id === value)) {
+      return `Unknown ${key} option: ${value}`;
+    }
+  }
+  return null;
+}
+
+const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "pixar",
+    name: "Pixar",
+    description: "Soft 3D animated film look",
+    thumbnail: "/styles/pixar.svg",
+    aspectRatios: { portrait: "1:1", fullBody: "9:16" },
+    style:
+      "3D animated Pixar-style character, Disney Pixar animation style, smooth skin, big expressive eyes, soft lighting",
+    likeness: "a 3D animated cartoon character",
+  },
+  {
+    id: "anime",
+    name: "Anime",
+    description: "Cel-shaded Japanese animation",
+    thumbnail: "/styles/anime.svg",
+    aspectRatios: { portrait: "1:1", fullBody: "9:16" },
+    style:
+      "anime character, modern Japanese animation style, clean cel shading, crisp line art, large detailed eyes, vibrant colours",
+    likeness: "an anime character",
+  },
+  {
+    id: "claymation",
+    name: "Claymation",
+    description: "Handmade stop-motion clay figure",
+    thumbnail: "/styles/claymation.svg",
+    aspectRatios: { portrait: "1:1", fullBody: "9:16" },
+    style:
+      "claymation character, stop-motion plasticine figure, visible fingerprint texture, rounded sculpted forms, warm studio lighting",
+    likeness: "a handmade clay figure",
+  },
+  {
+    id: "low-poly",
+    name: "Low-poly",
+    description: "Faceted game-ready 3D model",
+    thumbnail: "/styles/low-poly.svg",
+    aspectRatios: { portrait: "1:1", fullBody: "9:16" },
+    style:
+      "low-poly 3D character, flat-shaded triangular facets, simple geometric forms, limited colour palette, stylized video game look",
+    likeness: "a low-poly 3D character",
+  },
+  {
+    id: "comic",
+    name: "Comic",
+    description: "Bold inked comic book art",
+    thumbnail: "/styles/comic.svg",
+    aspectRatios: { portrait: "3:4", fullBody: "2:3" },
+    style:
+      "comic book character, bold black ink outlines, halftone shading, saturated flat colours, dynamic graphic novel illustration",
+    likeness: "a comic book character",
+  },
+  {
+    id: "photoreal-clean",
+    name: "Photoreal",
+    description: "Clean studio portrait, no stylization",
+    thumbnail: "/styles/photoreal-clean.svg",
+    aspectRatios: { portrait: "1:1", fullBody: "9:16" },
+    style:
+      "photorealistic studio portrait, natural skin texture, true-to-life proportions, even softbox lighting, sharp focus",
+    likeness: "a clean photorealistic studio portrait",
+  },
+];
+
+/**
+ * Look up a preset by id
+ */
+export function getStylePreset(id: string = DEFAULTS.STYLE_ID): StylePreset | undefined {
+  return STYLE_PRESETS.find((preset) => preset.id === id);
+}
+
+/**
+ * Public summaries of all presets, without prompt templates
+ */
+export function listStylePresets(): StylePresetSummary[] {
+  return STYLE_PRESETS.map(({ id, name, description, thumbnail, aspectRatios }) => ({
+    id,
+    name,
+    description,
+    thumbnail,
+    aspectRatios,
+  }));
+}
+
+/**
+ * Prompt for turning a photo into a character in the preset's style,
+ * with validated composer attributes and the free-text prompt appended
+ */
+export function buildStylePrompt(
+  preset: StylePreset,
+  fullBody: boolean,
+  stylePrompt?: string,
+  attributes: PromptAttributes = {}
+): string {
+  const expression = getAttributeOption("expression", attributes.expression)?.prompt;
+  const background = getAttributeOption("background", attributes.background)?.prompt;
+  const base = `${preset.style}, ${buildFraming(expression, background)}`;
+
+  const details = (["hair", "glasses", "headwear", "outfit", "palette"] as const)
+    .map((key) => getAttributeOption(key, attributes[key])?.prompt)
+    .filter(Boolean);
+  const customAddition = [...details, stylePrompt]
+    .filter(Boolean)
+    .map((part) => `, ${part}`)
+    .join("");
+  const likeness = `Keep the same facial features and likeness but as ${preset.likeness}.`;
+
+  if (fullBody) {
+    return `Transform this person into a full body ${base}. Show the complete body from head to feet, natural relaxed standing pose, arms at sides. Full body visible${customAddition}. ${likeness}`;
+  }
+
+  return `Transform this person into a ${base}${customAddition}. ${likeness}`;
+}
+
+/**
+ * Prompt for repainting a masked area so it blends into the existing character
+ */
+export function buildInpaintPrompt(prompt: string): string {
+  return `${prompt.trim()}, matching the art style, line work, lighting and colours of the rest of the image`;
+}
+
+/**
+ * Prompt for tidying a photo without restyling it: neutral background, centred subject
+ */
+export function buildCleanupPrompt(fullBody: boolean): string {
+  const framing = fullBody
+    ? "Show the complete body from head to feet, centered in the frame"
+    : "Center the head and shoulders in the frame";
+  return `Keep this exact photo of the person unchanged: same face, likeness, skin, hair, clothing and photographic realism, no stylization or retouching. Replace the background with pure black and remove any other people or objects. ${framing}, ${FRAMING}.`;
+}
+
+const VIEW_DESCRIPTIONS: Record<ViewAngle, string> = {
+  side: "from the side, in a clean profile view facing left",
+  back: "from behind, facing directly away from the camera",
+};
+
+/**
+ * Prompt for redrawing an already stylized character from another angle
+ */
+export function buildViewPrompt(preset: StylePreset, view: ViewAngle, fullBody: boolean): string {
+  const framing = fullBody
+    ? "Show the complete body from head to feet, same pose"
+    : "Same head and shoulders framing";
+  return `Show this exact same character ${VIEW_DESCRIPTIONS[view]}. ${framing}. Keep the identical character design, proportions, hair, outfit, colours and ${preset.name.toLowerCase()} art style, ${preset.style}, centered on pure black background.`;
+}
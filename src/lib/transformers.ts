@@ -0,0 +1,40 @@
+import type { PipelineType } from "@huggingface/transformers";
+
+/**
+ * Lazy transformers.js pipelines shared by the browser-side models (face
+ * detection, matting, depth). The library and each model are only fetched on
+ * first use, from the Hugging Face Hub, then kept for the session.
+ */
+
+const pipelines = new Map<string, Promise<unknown>>();
+
+/**
+ * Load a pipeline once, typed as the callable the caller relies on
+ */
+export function loadPipeline<T>(task: PipelineType, model: string): Promise<T> {
+  const key = `${task}:${model}`;
+  let loading = pipelines.get(key);
+  if (!loading) {
+    loading = import("@huggingface/transformers")
+      .then(({ pipeline }) => pipeline(task, model))
+      .catch((error) => {
+        // Allow a retry on the next call
+        pipelines.delete(key);
+        throw error;
+      });
+    pipelines.set(key, loading);
+  }
+  return loading as Promise<T>;
+}
+
+/**
+ * Base64 payload of a blob, without the data URL prefix
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -2,11 +2,39 @@
  * Shared types for the Avatar 3D application
  */
 
+/**
+ * Expression editor controls beyond head rotation and gaze; omitted means neutral
+ */
+export interface ExpressionParams {
+  blink?: number; // -20 (closed) to 5
+  wink?: number; // 0 to 25
+  eyebrow?: number; // -10 to 15
+  smile?: number; // -0.3 to 1.3
+  aaa?: number; // Open mouth, -30 to 120
+  eee?: number; // Wide mouth, -20 to 15
+  woo?: number; // Pursed lips, -20 to 15
+}
+
+/**
+ * Expression layers generated on top of the neutral grid, one frame per cell.
+ * Blink is played periodically; the others are switched to on click or hover.
+ */
+export type ExpressionLayerId = "blink" | "wink" | "smile" | "surprised";
+
+export type ExpressionTrigger = "click" | "hover";
+
+/**
+ * Mouth shapes of the front-facing lip-sync frame set
+ */
+export type VisemeId = "closed" | "small" | "aaa" | "eee" | "ooo";
+
 /**
  * Step configuration for head rotation generation
  */
-export interface Step {
+export interface Step extends ExpressionParams {
   filename: string;
+  expression?: ExpressionLayerId; // Unset for the neutral grid
+  viseme?: VisemeId; // Set for lip-sync frames
   rotate_yaw: number;
   rotate_pitch: number;
   pupil_x: number;
@@ -17,14 +45,35 @@ export interface Step {
   sample_ratio: number;
 }
 
+/**
+ * Encodings used for frames; both keep an alpha channel after background removal
+ */
+export type FrameMimeType = "image/png" | "image/webp";
+
 /**
  * Generated image with step metadata
  */
 export interface GeneratedImage {
   step: Step;
   imageBase64: string;
-  depthBase64?: string;
+  depthBase64?: string; // Greyscale PNG depth map, set in parallax mode
   index?: number;
+  mimeType?: FrameMimeType; // Defaults to image/png
+  synthesized?: boolean; // Interpolated in the browser by upsampling rather than generated
+}
+
+/**
+ * Canvas edits applied to the prepared image before generation. Cropping is a
+ * zoom and pan of the fixed-size output; uncovered areas get the background fill.
+ */
+export interface ImageAdjustments {
+  scale: number; // 1 = unchanged
+  offsetX: number; // Pan as a fraction of the width
+  offsetY: number; // Pan as a fraction of the height
+  rotation: number; // Degrees, clockwise
+  brightness: number; // Percent, 100 = unchanged
+  contrast: number; // Percent, 100 = unchanged
+  background: string; // CSS colour
 }
 
 /**
@@ -41,7 +90,62 @@ export type GenerationStatus =
 /**
  * Generation mode options
  */
-export type GenerationMode = "cursor" | "3d-model";
+export type GenerationMode = "cursor" | "3d-model" | "parallax" | "talking";
+
+/**
+ * Order in which grid frames are scheduled for generation
+ * - center-out: center cell first, then spiralling outwards ring by ring
+ * - coarse-to-fine: center, then an evenly subsampled grid that is progressively refined
+ * - row-major: top-left to bottom-right
+ */
+export type FrameOrder = "center-out" | "coarse-to-fine" | "row-major";
+
+/**
+ * What the cursor grid turns: the whole head, or mostly the eyes. Eyes grids
+ * keep the head near centre and nest an eye grid inside each head cell.
+ */
+export type GridType = "head" | "eyes";
+
+/**
+ * How frames are arranged around the centre: a rectangular grid, or a centre
+ * frame plus rings of evenly spaced directions that skip the rarely used corners
+ */
+export type FrameLayoutKind = "grid" | "polar";
+
+/**
+ * Everything needed to map a cursor position to a frame. Grid cells are
+ * row-major, with eye cells nested inside head cells; polar cell 0 is the
+ * centre, then each ring's directions clockwise from straight up.
+ */
+export type FrameLayout =
+  | { kind: "grid"; xSteps: number; ySteps: number; eyeXSteps: number; eyeYSteps: number }
+  | { kind: "polar"; rings: number; directions: number };
+
+/**
+ * Two frame indices, e.g. neighbouring cells or the parents of a refinement frame
+ */
+export type FramePair = [number, number];
+
+/**
+ * Range of one grid axis, in the expression editor's units. Straight ahead (0)
+ * must lie within it; the centre of the grid maps to 0.
+ */
+export interface AngleRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * How grid cells map to head and pupil angles
+ */
+export interface GridAngles {
+  yaw: AngleRange; // Degrees, negative turns left
+  pitch: AngleRange; // Degrees, negative looks up
+  pupilX: AngleRange;
+  pupilY: AngleRange;
+  headCurve: number; // 1 spaces cells evenly; higher packs them near the centre
+  pupilCurve: number; // Separate from the head so the gaze can lead or lag it
+}
 
 /**
  * Configuration for step generation
@@ -52,31 +156,127 @@ export interface GenerateStepsOptions {
   prefix: string;
   rotateBound?: number;
   pupilBound?: number;
+  angles?: GridAngles; // Overrides the symmetric, evenly spaced bounds above
+  expressions?: ExpressionLayerId[];
+  gridType?: GridType; // Defaults to "head"
+  eyeXSteps?: number; // Eye grid per head cell; eyes grids only
+  eyeYSteps?: number;
+  layout?: FrameLayoutKind; // Defaults to "grid"; polar layouts ignore the step counts above
+  rings?: number;
+  directions?: number; // Per ring
 }
 
 /**
  * Result of step generation
  */
 export interface GenerateStepsResult {
-  steps: Step[][];
+  steps: Step[][]; // Rows of the neutral layout (grid rows, or the centre then each ring), repeated per expression layer
   prefix: string;
   xSteps: number;
   ySteps: number;
+  expressions: ExpressionLayerId[];
+  gridType: GridType;
+  eyeXSteps: number; // 1 for head grids
+  eyeYSteps: number;
+  layout: FrameLayout;
 }
 
 /**
  * API request types
  */
+/**
+ * Stylization presets offered by /api/styles
+ */
+export type StylePresetId = "pixar" | "anime" | "claymation" | "low-poly" | "comic" | "photoreal-clean";
+
+/**
+ * How the uploaded photo is prepared before frames or 3D:
+ * restyled with a preset, only background-cleaned and centred, or used as-is
+ */
+export type PreprocessMode = "stylize" | "cleanup" | "passthrough";
+
+export type AspectRatio = "1:1" | "3:4" | "2:3" | "9:16";
+
+export interface StylePresetSummary {
+  id: StylePresetId;
+  name: string;
+  description: string;
+  thumbnail: string; // Public path of an example image
+  aspectRatios: { portrait: AspectRatio; fullBody: AspectRatio };
+}
+
+/**
+ * Structured character attributes, compiled into the stylization prompt on the server
+ */
+export type PromptAttributeKey =
+  | "hair"
+  | "glasses"
+  | "headwear"
+  | "outfit"
+  | "palette"
+  | "expression"
+  | "background";
+
+export type PromptAttributes = Partial<Record<PromptAttributeKey, string>>; // Values are option ids
+
+export interface PromptAttributeSummary {
+  key: PromptAttributeKey;
+  label: string;
+  options: { id: string; label: string }[];
+}
+
+export interface StylePresetsResponse {
+  presets: StylePresetSummary[];
+  defaultId: StylePresetId;
+  attributes: PromptAttributeSummary[];
+}
+
+/**
+ * Extra viewpoints of the stylized character for multi-view 3D input
+ */
+export type ViewAngle = "side" | "back";
+
+export interface ModelView {
+  angle: ViewAngle;
+  imageBase64: string;
+  source: "generated" | "uploaded";
+}
+
 export interface PreprocessRequest {
   imageBase64: string;
   fullBody?: boolean;
   stylePrompt?: string;
+  styleId?: StylePresetId;
+  mode?: Exclude<PreprocessMode, "passthrough">; // Defaults to stylize
+  view?: ViewAngle; // Redraw an already stylized character from this angle
+  candidates?: number; // Number of alternatives to generate, defaults to 1
+  attributes?: PromptAttributes; // Stylize mode only
+}
+
+export interface InpaintRequest {
+  imageBase64: string;
+  maskBase64: string; // White where the image should be repainted, black elsewhere
+  prompt: string; // What should appear in the masked area
+}
+
+/**
+ * Trellis sampling parameters for the sparse structure (ss) and
+ * structured latent (slat) stages
+ */
+export interface ModelSamplingParams {
+  ssSamplingSteps: number;
+  ssGuidanceStrength: number;
+  slatSamplingSteps: number;
+  slatGuidanceStrength: number;
 }
 
 export interface Generate3DRequest {
   imageBase64: string;
   textureSize?: number;
   meshQuality?: number;
+  seed?: number; // Omit for a random seed
+  sampling?: Partial<ModelSamplingParams>;
+  views?: ModelView[]; // Extra views sent alongside the front image
 }
 
 export interface GenerateStreamRequest {
@@ -84,6 +284,19 @@ export interface GenerateStreamRequest {
   xSteps?: number;
   ySteps?: number;
   prefix?: string;
+  /** Only generate these grid indices, e.g. to fill gaps in an existing render */
+  indices?: number[];
+  order?: FrameOrder;
+  expressions?: ExpressionLayerId[]; // Extra layers after the neutral grid
+  angles?: Partial<GridAngles>; // Defaults to DEFAULT_GRID_ANGLES
+  gridType?: GridType;
+  eyeXSteps?: number; // Eyes grids only
+  eyeYSteps?: number;
+  layout?: FrameLayoutKind;
+  rings?: number; // Polar layouts only
+  directions?: number;
+  refinements?: FramePair[]; // In-between frames after the base set, see generateRefinementSteps
+  visemes?: boolean; // Generate the lip-sync set instead of the grid; steps and expressions are ignored
 }
 
 /**
@@ -95,27 +308,124 @@ export interface ApiErrorResponse {
 
 export interface PreprocessResponse {
   success: boolean;
+  jobId: string;
+  imageBase64: string; // First candidate
+  candidates: string[]; // Every candidate that succeeded
+}
+
+export interface InpaintResponse {
+  success: boolean;
+  jobId: string;
   imageBase64: string;
 }
 
 export interface Generate3DResponse {
   success: boolean;
+  jobId: string;
   glbBase64: string;
   glbUrl?: string;
+  seed: number; // Seed actually used, for reproducing the model
+  sampling: ModelSamplingParams;
+}
+
+/**
+ * Server-side generation jobs
+ */
+export type JobKind = "frames" | "preprocess" | "inpaint" | "model";
+
+export type JobStatus = "running" | "complete" | "error" | "cancelled";
+
+export interface JobError {
+  index?: number;
+  error: string;
+}
+
+/**
+ * Response of GET /api/jobs/:id
+ */
+export interface JobSummary {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  total: number;
+  completedIndices: number[];
+  pendingIndices: number[];
+  errors: JobError[];
+  lastEventId: number;
+  sourcePath?: string; // GET for the job's input image, see JobSourceResponse
+  model?: ModelReference; // Set once a 3D job has finished
+}
+
+/**
+ * Response of GET /api/jobs/:id/source
+ */
+export interface JobSourceResponse {
+  imageBase64: string;
 }
 
 /**
  * SSE event types for streaming generation
  */
+export interface FramesStreamConfig {
+  kind: "frames";
+  jobId: string;
+  xSteps: number;
+  ySteps: number;
+  prefix: string;
+  totalImages: number;
+  estimatedCost: number;
+  indices: number[];
+  expressions: ExpressionLayerId[];
+  angles: GridAngles;
+  gridType: GridType;
+  eyeXSteps: number; // 1 for head grids
+  eyeYSteps: number;
+  layout: FrameLayout;
+  refinements: FramePair[];
+  visemes: boolean; // Frames are the lip-sync set, in VISEME_IDS order
+}
+
+export interface ModelStreamConfig {
+  kind: "model";
+  jobId: string;
+  textureSize: number;
+  meshQuality: number;
+  seed: number;
+  sampling: ModelSamplingParams;
+}
+
+/**
+ * Config of a single-image job (preprocess or inpaint); its result comes with
+ * the complete event
+ */
+export interface ImageJobStreamConfig {
+  kind: "preprocess" | "inpaint";
+  jobId: string;
+}
+
 export interface StreamConfigEvent {
   type: "config";
-  config: {
-    xSteps: number;
-    ySteps: number;
-    prefix: string;
-    totalImages: number;
-    estimatedCost: number;
-  };
+  config: FramesStreamConfig | ModelStreamConfig | ImageJobStreamConfig;
+}
+
+/**
+ * Replicate prediction lifecycle states
+ */
+export type PredictionStatus = "starting" | "processing" | "succeeded" | "failed" | "canceled";
+
+/**
+ * Progress update from a long-running prediction
+ */
+export interface PredictionProgress {
+  status: PredictionStatus;
+  percent?: number;
+  logs?: string;
+}
+
+export interface StreamStatusEvent extends PredictionProgress {
+  type: "status";
 }
 
 export interface StreamProgressEvent {
@@ -124,11 +434,40 @@ export interface StreamProgressEvent {
   total: number;
   index: number;
   step: Step;
-  imageBase64: string;
+  imageBase64?: string; // Dropped from replays once the client has confirmed it
+}
+
+export interface StreamFrameFailedEvent {
+  type: "frame_failed";
+  completed: number;
+  total: number;
+  index: number;
+  step: Step;
+  error: string;
+}
+
+/**
+ * Outcome of a job, sent with the complete event
+ */
+export interface FrameSummary {
+  succeeded: number;
+  failed: number;
+  failedIndices: number[];
+}
+
+/**
+ * Where to download a generated GLB
+ */
+export interface ModelReference {
+  path: string;
+  glbUrl?: string;
 }
 
 export interface StreamCompleteEvent {
   type: "complete";
+  summary: FrameSummary;
+  model?: ModelReference;
+  result?: PreprocessResponse | InpaintResponse; // Set for preprocess and inpaint jobs
 }
 
 export interface StreamErrorEvent {
@@ -136,8 +475,15 @@ export interface StreamErrorEvent {
   error: string;
 }
 
+export interface StreamCancelledEvent {
+  type: "cancelled";
+}
+
 export type StreamEvent =
   | StreamConfigEvent
+  | StreamStatusEvent
   | StreamProgressEvent
+  | StreamFrameFailedEvent
   | StreamCompleteEvent
-  | StreamErrorEvent;
+  | StreamErrorEvent
+  | StreamCancelledEvent;